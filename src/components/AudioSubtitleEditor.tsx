@@ -1,36 +1,97 @@
-import React, { useState, useRef, useEffect } from 'react'
-import { Upload, Play, Pause, Download, Loader2, Volume2, SkipBack, SkipForward } from 'lucide-react'
+import React, { useState, useRef, useEffect, useMemo } from 'react'
+import { Upload, Play, Pause, Loader2, Volume2, SkipBack, SkipForward, FileText, Magnet, Scissors, ArrowUpToLine, ArrowDownToLine, Trash2, Plus, ArrowLeft, Keyboard, Clock, AlertTriangle, CircleAlert, WrapText, RefreshCw } from 'lucide-react'
+import toast from 'react-hot-toast'
 import { Button } from './ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
-import { Progress } from './ui/progress'
 import { Textarea } from './ui/textarea'
 import { Slider } from './ui/slider'
-import { Input } from './ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { ExportMenu } from './ExportMenu'
+import { SpeechDetectionSettings } from './SpeechDetectionSettings'
+import { WaveformTimeline } from './WaveformTimeline'
+import { HistoryPanel } from './HistoryPanel'
+import { ProjectLibrary } from './ProjectLibrary'
+import { ProjectFileMenu } from './ProjectFileMenu'
+import { KeyboardShortcutsDialog } from './KeyboardShortcutsDialog'
+import { CommandPalette } from './CommandPalette'
+import { TimingToolsDialog, type TimingTool } from './TimingToolsDialog'
+import { LanguagePicker } from './LanguagePicker'
+import { CueTimeInput } from './CueTimeInput'
+import { StyleProfilesDialog } from './StyleProfilesDialog'
+import { QualityPanel } from './QualityPanel'
+import { RetranscribeDialog } from './RetranscribeDialog'
+import { TranscriptionJobPanel } from './TranscriptionJobPanel'
 import { blink } from '../blink/client'
+import type { SerializeOptions, Subtitle, SubtitleFormat } from '../lib/subtitles/types'
+import { acceptedExtensions, detectFormat, getFormatByExtension, listFormats } from '../lib/subtitles/registry'
+import { deleteCue, insertCue, mergeCues, replaceCuesInRange, splitCue, type TimeRange } from '../lib/subtitles/edit'
+import { breakCueLines } from '../lib/subtitles/linebreak'
+import { groupIssuesByCue, runQualityChecks } from '../lib/subtitles/qc'
+import { markupTags } from '../lib/subtitles/markup'
+import { downloadFile } from '../lib/download'
+import { addChunkCues, type TranscriptionJob } from '../lib/transcription/jobs'
+import { transcribeRange } from '../lib/transcription/pipeline'
+import {
+  getTranscriptionProvider,
+  listTranscriptionProviders,
+  loadTranscriptionProviderId,
+  saveTranscriptionProviderId
+} from '../lib/transcription/providers'
+import { DEFAULT_SPEECH_DETECTION, snapToRegions } from '../lib/transcription/vad'
+import { useSpeechRegions } from '../hooks/use-speech-regions'
+import { useSubtitleHistory } from '../hooks/use-subtitle-history'
+import { useAutosave } from '../hooks/use-autosave'
+import { useKeyboardShortcuts } from '../hooks/use-keyboard-shortcuts'
+import { useRegisterActions } from '../hooks/use-editor-actions'
+import { useStyleProfiles } from '../hooks/use-style-profiles'
+import { useTranscriptionJob } from '../hooks/use-transcription-job'
+import { shortcutHandlers, type EditorAction } from '../lib/actions'
+import { isTypingTarget } from '../lib/shortcuts'
+import { createProject, loadProjectAudio, setLastProjectId, setProjectAudio, updateProject } from '../lib/projects/store'
+import type { Project } from '../lib/projects/types'
+import {
+  PROJECT_FILE_EXTENSION,
+  PROJECT_FILE_MIME_TYPE,
+  parseProjectFile,
+  serializeProjectFile
+} from '../lib/projects/file'
+import { AUTO_DETECT_LANGUAGE, languageName } from '../lib/languages'
+import { findStyleProfile, profileCueGrouping, profileLineBreaks, profileQcLimits } from '../lib/profiles'
 
-interface Subtitle {
-  id: string
-  startTime: number
-  endTime: number
-  text: string
-}
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2]
 
 export function AudioSubtitleEditor() {
+  const [project, setProject] = useState<Project | null>(null)
   const [audioFile, setAudioFile] = useState<File | null>(null)
   const [audioUrl, setAudioUrl] = useState<string>('')
   const [isPlaying, setIsPlaying] = useState(false)
   const [currentTime, setCurrentTime] = useState(0)
   const [duration, setDuration] = useState(0)
   const [volume, setVolume] = useState([80])
-  const [subtitles, setSubtitles] = useState<Subtitle[]>([])
-  const [isTranscribing, setIsTranscribing] = useState(false)
-  const [transcriptionProgress, setTranscriptionProgress] = useState(0)
+  const [playbackRate, setPlaybackRate] = useState(1)
+  const history = useSubtitleHistory()
+  const { subtitles, trackMetadata, setSubtitles, resetHistory, undo, redo } = history
   const [selectedSubtitle, setSelectedSubtitle] = useState<string | null>(null)
   const [currentSubtitleId, setCurrentSubtitleId] = useState<string | null>(null)
   const [user, setUser] = useState<any>(null)
+  const [speechOptions, setSpeechOptions] = useState(DEFAULT_SPEECH_DETECTION)
+  const [shortcutsOpen, setShortcutsOpen] = useState(false)
+  const [paletteOpen, setPaletteOpen] = useState(false)
+  const [timingTool, setTimingTool] = useState<TimingTool | null>(null)
+  const [retranscribeOpen, setRetranscribeOpen] = useState(false)
+  const [profilesOpen, setProfilesOpen] = useState(false)
+  const styleProfiles = useStyleProfiles()
+  const styleProfile = findStyleProfile(styleProfiles.profiles, project?.styleProfileId)
+  const { regions: speechRegions, analysis: speechAnalysis, isAnalyzing } = useSpeechRegions(audioFile, speechOptions)
+  const { lastSavedAt } = useAutosave(project?.id ?? null, { subtitles, trackMetadata, speechOptions })
+  const transcription = useTranscriptionJob(project?.id ?? null)
+  const [providerId, setProviderId] = useState(loadTranscriptionProviderId)
 
   const audioRef = useRef<HTMLAudioElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const subtitleInputRef = useRef<HTMLInputElement>(null)
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const qualityPanelRef = useRef<HTMLDivElement>(null)
 
   // Auth state management
   useEffect(() => {
@@ -81,6 +142,28 @@ export function AudioSubtitleEditor() {
     }
   }, [audioUrl, subtitles])
 
+  // Undo/redo shortcuts. In the cue text field they take over from the browser's own text undo,
+  // which can't see edits made through React state anyway; other fields keep their native undo.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return
+      if (isTypingTarget(event.target) && event.target !== textareaRef.current) return
+      const key = event.key.toLowerCase()
+
+      if (key === 'z') {
+        event.preventDefault()
+        if (event.shiftKey) redo()
+        else undo()
+      } else if (key === 'y' && !event.shiftKey) {
+        event.preventDefault()
+        redo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+
   // Volume control
   useEffect(() => {
     if (audioRef.current) {
@@ -88,6 +171,177 @@ export function AudioSubtitleEditor() {
     }
   }, [volume])
 
+  // Loading a new source resets the rate to the default, so set both
+  useEffect(() => {
+    if (audioRef.current) {
+      audioRef.current.defaultPlaybackRate = playbackRate
+      audioRef.current.playbackRate = playbackRate
+    }
+  }, [playbackRate, audioUrl])
+
+  const showAudio = (file: File | null) => {
+    if (audioUrl) URL.revokeObjectURL(audioUrl)
+    setAudioFile(file)
+    setAudioUrl(file ? URL.createObjectURL(file) : '')
+    setIsPlaying(false)
+    setCurrentTime(0)
+    setDuration(0)
+  }
+
+  const loadAudioFile = (file: File) => {
+    showAudio(file)
+    setSelectedSubtitle(null)
+    if (project) {
+      setProjectAudio(project.id, file)
+        .then(updated => updated && setProject(updated))
+        .catch(error => console.error('Unable to save project audio:', error))
+    }
+  }
+
+  const openProject = async (next: Project) => {
+    try {
+      const audio = await loadProjectAudio(next)
+      if (next.audio && !audio) toast.error(`The audio for ${next.name} is missing; add it again to keep working`)
+
+      showAudio(audio)
+      setProject(next)
+      resetHistory(next.subtitles, 'Open project', next.trackMetadata)
+      setSpeechOptions(next.speechOptions)
+      setSelectedSubtitle(null)
+      setCurrentSubtitleId(null)
+      await setLastProjectId(next.id)
+    } catch (error) {
+      console.error('Unable to open project:', error)
+      toast.error(`Unable to open ${next.name}`)
+    }
+  }
+
+  const closeProject = () => {
+    audioRef.current?.pause()
+    showAudio(null)
+    setProject(null)
+    resetHistory([])
+    setSpeechOptions(DEFAULT_SPEECH_DETECTION)
+    setSelectedSubtitle(null)
+    setCurrentSubtitleId(null)
+  }
+
+  const openProjectFile = async (file: File) => {
+    try {
+      const { project: opened, audio, styleProfile: embeddedProfile, skippedCues } = await parseProjectFile(await file.text())
+      const { audio: _audioRef, ...content } = opened
+      if (embeddedProfile) {
+        content.styleProfileId = styleProfiles.adoptProfile(embeddedProfile).id
+      }
+      const created = await createProject(opened.name, { ...content, audio })
+      await openProject(created)
+      if (opened.audio && !audio) {
+        toast(`${file.name} doesn't include its audio; add ${opened.audio.name} to keep working`)
+      }
+      if (skippedCues > 0) {
+        toast.error(`Skipped ${skippedCues} cues in ${file.name} that had no valid start and end time`)
+      }
+    } catch (error) {
+      console.error('Unable to open project file:', error)
+      toast.error(`Unable to open ${file.name}: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  const saveProjectFile = async (includeAudio: boolean) => {
+    if (!project) return
+
+    const content = await serializeProjectFile(
+      { ...project, subtitles, trackMetadata, speechOptions },
+      includeAudio ? audioFile : null,
+      styleProfile
+    )
+    downloadFile(content, `${project.name}.${PROJECT_FILE_EXTENSION}`, PROJECT_FILE_MIME_TYPE)
+  }
+
+  // Settings outside the autosaved content are written as soon as they change
+  // Saved to the given project, the open one by default; the editor only shows them if it is still open
+  const updateProjectSettings = (
+    changes: Pick<Partial<Project>, 'styleProfileId' | 'language'>,
+    projectId = project?.id
+  ) => {
+    if (!projectId) return
+    setProject(prev => prev?.id === projectId ? { ...prev, ...changes } : prev)
+    updateProject(projectId, changes)
+      .catch(error => console.error('Unable to save project settings:', error))
+  }
+
+  const changeStyleProfile = (id: string) => updateProjectSettings({ styleProfileId: id })
+
+  const changeProvider = (id: string) => {
+    setProviderId(id)
+    saveTranscriptionProviderId(id)
+  }
+
+  // Providers that call the Blink API need a signed-in user; local ones run without one
+  const signInNeededFor = (id: string | undefined) => {
+    const provider = getTranscriptionProvider(id)
+    return provider.requiresAuth && !user ? `Sign in to transcribe with ${provider.name}` : null
+  }
+
+  const createProjectFromFile = async (file: File) => {
+    if (file.name.toLowerCase().endsWith(`.${PROJECT_FILE_EXTENSION}`)) {
+      await openProjectFile(file)
+      return
+    }
+
+    const isAudio = file.type.startsWith('audio/')
+    if (!isAudio && !isSubtitleFile(file)) {
+      toast.error(`${file.name} is neither an audio nor a subtitle file`)
+      return
+    }
+
+    const name = file.name.replace(/\.[^/.]+$/, '')
+    try {
+      const created = await createProject(name, { audio: isAudio ? file : null })
+      await openProject(created)
+    } catch (error) {
+      console.error('Unable to create project:', error)
+      toast.error('Unable to create the project')
+      return
+    }
+    if (!isAudio) await importSubtitleFile(file)
+  }
+
+  // Plain-text files go through content sniffing, so a mislabelled .txt still imports
+  const isSubtitleFile = (file: File) => Boolean(getFormatByExtension(file.name)) || file.type.startsWith('text/')
+
+  const importSubtitleFile = async (file: File) => {
+    const text = await file.text()
+    const format = detectFormat(text, file.name)
+    if (!format) {
+      toast.error(`${file.name} is not a subtitle format the editor can read`)
+      return
+    }
+    const { subtitles: imported, errors, metadata = {} } = format.parse(text)
+
+    if (imported.length === 0) {
+      toast.error(`No subtitles found in ${file.name}`)
+      return
+    }
+    if (subtitles.length > 0 && !confirm('Replace the current subtitles with the imported file?')) {
+      return
+    }
+
+    // The file's styles and headers go in the same undo step as its cues
+    setSubtitles(imported, { label: `Import ${file.name}`, trackMetadata: metadata })
+    setSelectedSubtitle(null)
+
+    if (errors.length > 0) {
+      const details = errors.slice(0, 5).map(error => `Line ${error.line}: ${error.message}`).join('\n')
+      const more = errors.length > 5 ? `\n…and ${errors.length - 5} more` : ''
+      toast.error(`Imported ${imported.length} subtitles, skipped ${errors.length} malformed blocks:\n${details}${more}`, {
+        duration: 8000
+      })
+    } else {
+      toast.success(`Imported ${imported.length} subtitles`)
+    }
+  }
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
     if (!file) return
@@ -98,11 +352,16 @@ export function AudioSubtitleEditor() {
       return
     }
 
-    setAudioFile(file)
-    const url = URL.createObjectURL(file)
-    setAudioUrl(url)
-    setSubtitles([])
-    setSelectedSubtitle(null)
+    loadAudioFile(file)
+  }
+
+  const handleSubtitleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // Reset so picking the same file again still fires onChange
+    event.target.value = ''
+    if (!file) return
+
+    await importSubtitleFile(file)
   }
 
   const handleDragOver = (event: React.DragEvent) => {
@@ -112,12 +371,12 @@ export function AudioSubtitleEditor() {
   const handleDrop = (event: React.DragEvent) => {
     event.preventDefault()
     const file = event.dataTransfer.files[0]
-    if (file && file.type.startsWith('audio/')) {
-      setAudioFile(file)
-      const url = URL.createObjectURL(file)
-      setAudioUrl(url)
-      setSubtitles([])
-      setSelectedSubtitle(null)
+    if (!file) return
+
+    if (isSubtitleFile(file)) {
+      importSubtitleFile(file)
+    } else if (file.type.startsWith('audio/')) {
+      loadAudioFile(file)
     }
   }
 
@@ -147,112 +406,205 @@ export function AudioSubtitleEditor() {
     seekTo(Math.min(duration, currentTime + 10))
   }
 
-  const transcribeAudio = async () => {
-    if (!audioFile || !user) return
+  // The job's first finished chunk replaces the track, later ones add to it. A run's cues share
+  // one undo step, unless the user edits in between.
+  const transcriptionTarget = (file: File) => {
+    const runKey = `transcribe:${Date.now()}`
+    return {
+      audioFile: file,
+      analysis: speechAnalysis ?? undefined,
+      onChunk: (chunkCues: Subtitle[], first: boolean) => {
+        setSubtitles(
+          prev => addChunkCues(prev, chunkCues, first),
+          { label: 'Auto-transcribe', coalesceKey: runKey, coalesceWindow: Infinity }
+        )
+      }
+    }
+  }
 
-    setIsTranscribing(true)
-    setTranscriptionProgress(0)
+  const finishTranscription = (finished: TranscriptionJob | null) => {
+    if (!finished) return
 
-    try {
-      // Convert file to base64 for transcription
-      const base64Audio = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader()
-        reader.onload = () => {
-          const dataUrl = reader.result as string
-          const base64Data = dataUrl.split(',')[1]
-          resolve(base64Data)
-        }
-        reader.onerror = reject
-        reader.readAsDataURL(audioFile)
-      })
+    // Keep what was detected so exports can declare it; the picker can switch back to auto-detect.
+    // The job's own project gets it, even if the user has since opened another.
+    if (!finished.settings.language && finished.detectedLanguage) {
+      updateProjectSettings({ language: finished.detectedLanguage }, finished.projectId)
+      toast(`Detected ${languageName(finished.detectedLanguage)}`)
+    }
 
-      // Simulate progress updates
-      const progressInterval = setInterval(() => {
-        setTranscriptionProgress(prev => Math.min(prev + 10, 90))
-      }, 500)
+    const kept = finished.chunks.some(chunk => chunk.status === 'done')
+    if (finished.status === 'failed') {
+      console.error('Transcription failed:', finished.error)
+      toast.error(kept
+        ? 'Transcription stopped partway. The finished chunks were kept and the rest can be resumed.'
+        : 'Transcription failed. Please try again.')
+    } else if (finished.status === 'cancelled') {
+      toast(kept ? 'Transcription cancelled. Resume to finish the remaining chunks.' : 'Transcription cancelled.')
+    }
+  }
 
-      // Transcribe audio using Blink AI
-      const { text } = await blink.ai.transcribeAudio({
-        audio: base64Audio,
-        language: 'en'
-      })
+  const transcribeAudio = async () => {
+    if (!audioFile || !project || transcription.isRunning) return
+    const signIn = signInNeededFor(providerId)
+    if (signIn) {
+      toast.error(signIn)
+      return
+    }
 
-      clearInterval(progressInterval)
-      setTranscriptionProgress(100)
+    const autoDetect = project.language === AUTO_DETECT_LANGUAGE
+    const settings = {
+      provider: providerId,
+      language: autoDetect ? undefined : project.language,
+      grouping: profileCueGrouping(styleProfile),
+      lineBreaks: profileLineBreaks(styleProfile)
+    }
+    finishTranscription(await transcription.start(settings, transcriptionTarget(audioFile)))
+  }
 
-      // Convert transcription to subtitle format with better timing
-      const words = text.split(' ').filter(word => word.trim().length > 0)
-      
-      // Create shorter segments (3-5 words per subtitle for better readability)
-      const wordsPerSegment = 4
-      // Use shorter time increments (2-3 seconds per segment)
-      const baseSegmentDuration = 2.5
-      
-      const newSubtitles: Subtitle[] = []
-      
-      for (let i = 0; i < words.length; i += wordsPerSegment) {
-        const segmentWords = words.slice(i, i + wordsPerSegment)
-        
-        // Calculate timing based on word count and natural speech patterns
-        const segmentIndex = Math.floor(i / wordsPerSegment)
-        const startTime = segmentIndex * baseSegmentDuration
-        
-        // Adjust duration based on word count and complexity
-        const wordCount = segmentWords.length
-        const avgWordLength = segmentWords.reduce((sum, word) => sum + word.length, 0) / wordCount
-        
-        // Longer words need more time, shorter segments can be quicker
-        const durationMultiplier = Math.max(0.8, Math.min(1.5, avgWordLength / 5))
-        const segmentDuration = Math.min(
-          baseSegmentDuration * durationMultiplier,
-          duration - startTime
-        )
-        
-        const endTime = Math.min(startTime + segmentDuration, duration)
-        
-        // Skip if we've exceeded the audio duration
-        if (startTime >= duration) break
-
-        newSubtitles.push({
-          id: `subtitle-${segmentIndex}`,
-          startTime,
-          endTime,
-          text: segmentWords.join(' ')
-        })
-      }
+  const retranscribeRange = async (range: TimeRange, signal: AbortSignal) => {
+    if (!audioFile) return []
+    const signIn = signInNeededFor(providerId)
+    if (signIn) throw new Error(signIn)
+    const autoDetect = !project || project.language === AUTO_DETECT_LANGUAGE
+    const result = await transcribeRange(audioFile, speechAnalysis ?? undefined, range, {
+      provider: providerId,
+      language: autoDetect ? undefined : project.language,
+      grouping: profileCueGrouping(styleProfile),
+      lineBreaks: profileLineBreaks(styleProfile),
+      signal
+    })
+    return result.subtitles
+  }
 
-      // If we have remaining time and fewer subtitles than expected, 
-      // redistribute timing more evenly
-      if (newSubtitles.length > 0) {
-        const totalSubtitles = newSubtitles.length
-        const timePerSubtitle = duration / totalSubtitles
-        
-        newSubtitles.forEach((subtitle, index) => {
-          subtitle.startTime = index * timePerSubtitle
-          subtitle.endTime = Math.min((index + 1) * timePerSubtitle, duration)
-        })
-      }
+  // Applied to the track as it is now, so edits made while reviewing are kept
+  const acceptRetranscription = (range: TimeRange, cues: Subtitle[]) => {
+    setSubtitles(prev => replaceCuesInRange(prev, range, cues), { label: 'Re-transcribe range' })
+  }
 
-      setSubtitles(newSubtitles)
-    } catch (error) {
-      console.error('Transcription failed:', error)
-      alert('Transcription failed. Please try again.')
-    } finally {
-      setIsTranscribing(false)
-      setTranscriptionProgress(0)
+  const resumeTranscription = async () => {
+    if (!audioFile || !transcription.job || transcription.isRunning) return
+    const signIn = signInNeededFor(transcription.job.settings.provider)
+    if (signIn) {
+      toast.error(signIn)
+      return
     }
+    finishTranscription(await transcription.resume(transcriptionTarget(audioFile)))
   }
 
   const updateSubtitleText = (id: string, newText: string) => {
     setSubtitles(prev => prev.map(sub => 
       sub.id === id ? { ...sub, text: newText } : sub
-    ))
+    ), { label: 'Edit text', coalesceKey: `text:${id}` })
   }
 
+  // Drags and typed timecodes arrive as a stream of updates; coalescing keeps them one step
   const updateSubtitleTiming = (id: string, startTime: number, endTime: number) => {
     setSubtitles(prev => prev.map(sub => 
       sub.id === id ? { ...sub, startTime, endTime } : sub
-    ))
+    ), { label: 'Change timing', coalesceKey: `timing:${id}` })
+  }
+
+  const snapSubtitleToSpeech = (subtitle: Subtitle) => {
+    const startTime = snapToRegions(subtitle.startTime, speechRegions)
+    const endTime = snapToRegions(subtitle.endTime, speechRegions)
+    if (endTime > startTime) {
+      setSubtitles(prev => prev.map(sub =>
+        sub.id === subtitle.id ? { ...sub, startTime, endTime } : sub
+      ), { label: 'Snap to speech' })
+    }
+  }
+
+  const updateSubtitleStyle = (id: string, style: string) => {
+    setSubtitles(prev => prev.map(sub =>
+      sub.id === id ? { ...sub, style } : sub
+    ), { label: `Set style ${style}` })
+  }
+
+  // Re-flows one cue, or every cue when none is given, to the style profile's line limits
+  const breakLines = (subtitle?: Subtitle) => {
+    const next = breakCueLines(subtitles, profileLineBreaks(styleProfile), subtitle && new Set([subtitle.id]))
+    const changed = next.filter((sub, index) => sub !== subtitles[index]).length
+    if (changed === 0) {
+      toast('Lines already fit the style profile')
+      return
+    }
+    setSubtitles(next, { label: subtitle ? 'Break lines' : `Break lines in ${changed} cues` })
+  }
+
+  const splitAtPlayhead = (subtitle: Subtitle) => {
+    // A cursor at either end of the text would leave one half empty, so fall back to the time ratio
+    const cursor = textareaRef.current?.selectionStart
+    const offset = cursor && cursor < subtitle.text.length ? cursor : undefined
+
+    const result = splitCue(subtitles, subtitle.id, currentTime, offset)
+    if (!result) {
+      toast.error('Move the playhead inside the selected cue to split it')
+      return
+    }
+    setSubtitles(result.subtitles, { label: 'Split cue' })
+    setSelectedSubtitle(result.id)
+  }
+
+  const mergeWithNeighbour = (subtitle: Subtitle, direction: 'previous' | 'next') => {
+    const result = mergeCues(subtitles, subtitle.id, direction)
+    if (!result) return
+    setSubtitles(result.subtitles, { label: `Merge with ${direction} cue` })
+    setSelectedSubtitle(result.id)
+  }
+
+  const insertAtPlayhead = () => {
+    const result = insertCue(subtitles, currentTime, { maxTime: duration || Infinity })
+    if (!result) {
+      toast.error('No room for a new cue at the playhead')
+      return
+    }
+    setSubtitles(result.subtitles, { label: 'Insert cue' })
+    setSelectedSubtitle(result.id)
+  }
+
+  const deleteSubtitle = (subtitle: Subtitle) => {
+    const result = deleteCue(subtitles, subtitle.id)
+    setSubtitles(result.subtitles, { label: 'Delete cue' })
+    setSelectedSubtitle(result.id)
+  }
+
+  const selectedCue = subtitles.find(sub => sub.id === selectedSubtitle)
+
+  const seekBy = (delta: number) => {
+    seekTo(Math.min(duration, Math.max(0, currentTime + delta)))
+  }
+
+  const selectCue = (subtitle: Subtitle) => {
+    setSelectedSubtitle(subtitle.id)
+    seekTo(subtitle.startTime)
+  }
+
+  // Steps from the selected cue, or from the playhead when nothing is selected
+  const stepCue = (direction: 1 | -1) => {
+    const ordered = [...subtitles].sort((a, b) => a.startTime - b.startTime)
+    const index = selectedCue ? ordered.indexOf(selectedCue) : -1
+    const target = index !== -1
+      ? ordered[index + direction]
+      : direction === 1
+      ? ordered.find(sub => sub.startTime > currentTime)
+      : [...ordered].reverse().find(sub => sub.startTime < currentTime)
+    if (target) selectCue(target)
+  }
+
+  const setCueEdgeAtPlayhead = (edge: 'start' | 'end') => {
+    if (!selectedCue) return
+    if (edge === 'start' && currentTime < selectedCue.endTime) {
+      updateSubtitleTiming(selectedCue.id, currentTime, selectedCue.endTime)
+    } else if (edge === 'end' && currentTime > selectedCue.startTime) {
+      updateSubtitleTiming(selectedCue.id, selectedCue.startTime, currentTime)
+    }
+  }
+
+  const nudgeCue = (delta: number) => {
+    if (!selectedCue) return
+    const length = selectedCue.endTime - selectedCue.startTime
+    const startTime = Math.max(0, selectedCue.startTime + delta)
+    updateSubtitleTiming(selectedCue.id, startTime, startTime + length)
   }
 
   const formatTime = (seconds: number) => {
@@ -262,78 +614,262 @@ export function AudioSubtitleEditor() {
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${ms.toString().padStart(3, '0')}`
   }
 
-  const parseTime = (timeString: string): number => {
-    const parts = timeString.split(':')
-    if (parts.length !== 2) return 0
-    
-    const minutes = parseInt(parts[0]) || 0
-    const secondsParts = parts[1].split('.')
-    const seconds = parseInt(secondsParts[0]) || 0
-    const milliseconds = parseInt(secondsParts[1]?.padEnd(3, '0').slice(0, 3)) || 0
-    
-    return minutes * 60 + seconds + milliseconds / 1000
-  }
+  const exportBaseName = () => project?.name || audioFile?.name.replace(/\.[^/.]+$/, '') || 'subtitles'
 
-  const exportSRT = () => {
+  const exportSubtitles = (format: SubtitleFormat, options: Partial<SerializeOptions>) => {
     if (subtitles.length === 0) return
 
-    let srtContent = ''
-    subtitles.forEach((subtitle, index) => {
-      const startTime = formatTime(subtitle.startTime)
-      const endTime = formatTime(subtitle.endTime)
-      
-      srtContent += `${index + 1}\n`
-      srtContent += `${startTime} --> ${endTime}\n`
-      srtContent += `${subtitle.text}\n\n`
+    const failing = new Set(qcIssues.map(issue => issue.cueId)).size
+    if (failing > 0) toast(`${failing} cue${failing === 1 ? '' : 's'} don't meet the ${styleProfile.name} guidelines`)
+
+    // Markup the profile doesn't allow is dropped rather than delivered, and the user is told what went
+    const removed = [...new Set(subtitles.flatMap(sub => markupTags(sub.text)))]
+      .filter(tag => !styleProfile.allowedTags.includes(tag))
+    if (removed.length > 0) {
+      toast(`Removed ${removed.map(tag => `<${tag}>`).join(', ')} markup, which the ${styleProfile.name} profile doesn't allow`)
+    }
+
+    // A format variant's own frame rate wins
+    const content = format.serialize(subtitles, {
+      ...format.defaultOptions,
+      frameRate: styleProfile.frameRate,
+      language: project && project.language !== AUTO_DETECT_LANGUAGE ? project.language : undefined,
+      ...options,
+      allowedTags: styleProfile.allowedTags,
+      metadata: trackMetadata
     })
 
-    const blob = new Blob([srtContent], { type: 'text/plain' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `${audioFile?.name.replace(/\.[^/.]+$/, '') || 'subtitles'}.srt`
-    document.body.appendChild(a)
-    a.click()
-    document.body.removeChild(a)
-    URL.revokeObjectURL(url)
-  }
-
-  if (!user) {
-    return (
-      <div className="min-h-screen bg-background flex items-center justify-center">
-        <Card className="w-96">
-          <CardHeader>
-            <CardTitle className="text-center">Welcome to Audio Subtitle Editor</CardTitle>
-          </CardHeader>
-          <CardContent className="text-center">
-            <p className="text-muted-foreground mb-4">
-              Please sign in to start transcribing audio files into editable subtitles.
-            </p>
-            <Button onClick={() => blink.auth.login()}>
-              Sign In
-            </Button>
-          </CardContent>
-        </Card>
-      </div>
+    // Check the output before it leaves the editor; delivery platforms reject invalid files outright
+    if (format.validate && typeof content === 'string') {
+      const issues = format.validate(content)
+      const errors = issues.filter(issue => issue.severity === 'error')
+      if (errors.length > 0) {
+        const details = errors.slice(0, 10).map(issue => `• ${issue.message}`).join('\n')
+        if (!confirm(`${format.name} validation found ${errors.length} problem(s):\n${details}\n\nDownload anyway?`)) return
+      }
+      issues
+        .filter(issue => issue.severity === 'warning')
+        .forEach(issue => toast(issue.message))
+    }
+
+    downloadFile(content, `${exportBaseName()}.${format.extensions[0]}`, format.mimeType)
+  }
+
+  // Re-checked on every edit; cheap enough that there's no need to debounce
+  const qcIssues = useMemo(
+    () => runQualityChecks(subtitles, profileQcLimits(styleProfile), duration || undefined),
+    [subtitles, duration, styleProfile]
+  )
+  const qcIssuesByCue = useMemo(() => groupIssuesByCue(qcIssues), [qcIssues])
+
+  const actions: EditorAction[] = [
+    { id: 'help.shortcuts', label: 'Show keyboard shortcuts', group: 'Help', shortcut: 'showShortcuts', run: () => setShortcutsOpen(true) },
+    { id: 'help.palette', label: 'Open command palette', group: 'Help', shortcut: 'commandPalette', run: () => setPaletteOpen(true) }
+  ]
+
+  if (project) {
+    const noCue = !selectedCue
+    actions.push(
+      { id: 'playback.playPause', label: isPlaying ? 'Pause' : 'Play', group: 'Playback', shortcut: 'playPause', disabled: !audioFile, run: togglePlayPause },
+      { id: 'playback.backFrame', label: 'Back one frame', group: 'Playback', shortcut: 'seekBackFrame', run: () => seekBy(-1 / styleProfile.frameRate) },
+      { id: 'playback.forwardFrame', label: 'Forward one frame', group: 'Playback', shortcut: 'seekForwardFrame', run: () => seekBy(1 / styleProfile.frameRate) },
+      { id: 'playback.back1s', label: 'Back 1 second', group: 'Playback', shortcut: 'seekBack1s', run: () => seekBy(-1) },
+      { id: 'playback.forward1s', label: 'Forward 1 second', group: 'Playback', shortcut: 'seekForward1s', run: () => seekBy(1) },
+      { id: 'playback.back10s', label: 'Back 10 seconds', group: 'Playback', shortcut: 'seekBack10s', run: skipBackward },
+      { id: 'playback.forward10s', label: 'Forward 10 seconds', group: 'Playback', shortcut: 'seekForward10s', run: skipForward },
+      ...PLAYBACK_RATES.map((rate): EditorAction => ({
+        id: `playback.rate.${rate}`,
+        label: `Playback speed ${rate}×`,
+        group: 'Playback',
+        keywords: ['rate', 'speed'],
+        disabled: rate === playbackRate,
+        run: () => setPlaybackRate(rate)
+      })),
+      { id: 'timing.setStart', label: 'Set cue start at playhead', group: 'Timing', shortcut: 'setStart', disabled: noCue, run: () => setCueEdgeAtPlayhead('start') },
+      { id: 'timing.setEnd', label: 'Set cue end at playhead', group: 'Timing', shortcut: 'setEnd', disabled: noCue, run: () => setCueEdgeAtPlayhead('end') },
+      { id: 'timing.nudgeEarlier', label: 'Nudge cue 100 ms earlier', group: 'Timing', shortcut: 'nudgeEarlier', disabled: noCue, run: () => nudgeCue(-0.1) },
+      { id: 'timing.nudgeLater', label: 'Nudge cue 100 ms later', group: 'Timing', shortcut: 'nudgeLater', disabled: noCue, run: () => nudgeCue(0.1) },
+      { id: 'timing.shift', label: 'Shift timings...', group: 'Timing', keywords: ['offset', 'delay'], disabled: subtitles.length === 0, run: () => setTimingTool('shift') },
+      { id: 'timing.sync', label: 'Two-point sync...', group: 'Timing', keywords: ['resync', 'stretch'], disabled: subtitles.length === 0, run: () => setTimingTool('sync') },
+      { id: 'timing.frameRate', label: 'Convert frame rate...', group: 'Timing', keywords: ['fps', '23.976', '25'], disabled: subtitles.length === 0, run: () => setTimingTool('framerate') },
+      { id: 'profile.manage', label: 'Style profiles...', group: 'Quality', keywords: ['netflix', 'bbc', 'youtube', 'guidelines'], run: () => setProfilesOpen(true) },
+      ...styleProfiles.profiles.map((entry): EditorAction => ({
+        id: `profile.use.${entry.id}`,
+        label: `Use ${entry.name} style profile`,
+        group: 'Quality',
+        disabled: entry.id === styleProfile.id,
+        run: () => changeStyleProfile(entry.id)
+      })),
+      { id: 'qc.show', label: 'Show quality issues', group: 'Quality', keywords: ['qc', 'validate', 'cps'], disabled: subtitles.length === 0, run: () => qualityPanelRef.current?.scrollIntoView({ behavior: 'smooth' }) },
+      { id: 'timing.snap', label: 'Snap cue to speech', group: 'Timing', disabled: noCue || speechRegions.length === 0, run: () => selectedCue && snapSubtitleToSpeech(selectedCue) },
+      { id: 'cue.previous', label: 'Previous cue', group: 'Cues', shortcut: 'previousCue', run: () => stepCue(-1) },
+      { id: 'cue.next', label: 'Next cue', group: 'Cues', shortcut: 'nextCue', run: () => stepCue(1) },
+      { id: 'cue.split', label: 'Split cue at playhead', group: 'Cues', shortcut: 'split', disabled: noCue, run: () => selectedCue && splitAtPlayhead(selectedCue) },
+      { id: 'cue.mergeNext', label: 'Merge with next cue', group: 'Cues', shortcut: 'mergeNext', disabled: noCue, run: () => selectedCue && mergeWithNeighbour(selectedCue, 'next') },
+      { id: 'cue.mergePrevious', label: 'Merge with previous cue', group: 'Cues', shortcut: 'mergePrevious', disabled: noCue, run: () => selectedCue && mergeWithNeighbour(selectedCue, 'previous') },
+      { id: 'cue.breakLines', label: 'Break cue into lines', group: 'Cues', shortcut: 'breakLines', keywords: ['wrap', 'line break'], disabled: noCue, run: () => selectedCue && breakLines(selectedCue) },
+      { id: 'cue.breakAllLines', label: 'Break all cues into lines', group: 'Cues', keywords: ['wrap', 'line break'], disabled: subtitles.length === 0, run: () => breakLines() },
+      { id: 'cue.insert', label: 'Insert cue at playhead', group: 'Cues', shortcut: 'insertCue', run: insertAtPlayhead },
+      { id: 'cue.delete', label: 'Delete cue', group: 'Cues', shortcut: 'deleteCue', disabled: noCue, run: () => selectedCue && deleteSubtitle(selectedCue) },
+      { id: 'edit.undo', label: 'Undo', group: 'Edit', keys: 'Ctrl+Z', disabled: !history.canUndo, run: undo },
+      { id: 'edit.redo', label: 'Redo', group: 'Edit', keys: 'Ctrl+Shift+Z', disabled: !history.canRedo, run: redo },
+      { id: 'transcribe.auto', label: 'Auto-transcribe', group: 'Transcription', disabled: !audioFile || transcription.isRunning, run: transcribeAudio },
+      ...listTranscriptionProviders().map((provider): EditorAction => ({
+        id: `transcribe.provider.${provider.id}`,
+        label: `Transcribe with ${provider.name}`,
+        group: 'Transcription',
+        keywords: ['provider', 'engine', 'offline'],
+        disabled: provider.id === providerId || transcription.isRunning,
+        run: () => changeProvider(provider.id)
+      })),
+      { id: 'transcribe.range', label: 'Re-transcribe range...', group: 'Transcription', keywords: ['redo', 'region', 'selection'], disabled: !audioFile || transcription.isRunning, run: () => setRetranscribeOpen(true) },
+      { id: 'transcribe.cancel', label: 'Cancel transcription', group: 'Transcription', disabled: !transcription.isRunning, run: transcription.cancel },
+      { id: 'transcribe.resume', label: 'Resume transcription', group: 'Transcription', disabled: !audioFile || !transcription.job || transcription.isRunning, run: resumeTranscription },
+      { id: 'file.loadSubtitles', label: 'Load subtitles...', group: 'File', keywords: ['import', 'open'], run: () => subtitleInputRef.current?.click() },
+      { id: 'file.save', label: 'Save project file', group: 'File', keywords: ['subproj'], run: () => saveProjectFile(false) },
+      { id: 'file.saveWithAudio', label: 'Save project file with audio', group: 'File', keywords: ['subproj'], disabled: !audioFile, run: () => saveProjectFile(true) },
+      { id: 'file.close', label: 'Back to projects', group: 'File', keywords: ['library', 'close'], run: closeProject },
+      ...listFormats().flatMap(format => [
+        { label: `Export ${format.name}`, options: {} },
+        ...(format.variants ?? []).map(variant => ({ label: `Export ${format.name} (${variant.label})`, options: variant.options }))
+      ].map(({ label, options }, index): EditorAction => ({
+        id: `export.${format.id}.${index}`,
+        label,
+        group: 'Export',
+        keywords: format.extensions,
+        disabled: subtitles.length === 0,
+        run: () => exportSubtitles(format, options)
+      })))
     )
   }
 
+  useRegisterActions('editor', actions)
+  const shortcuts = useKeyboardShortcuts(shortcutHandlers(actions))
+
   return (
     <div className="min-h-screen bg-background p-4">
       <div className="max-w-7xl mx-auto space-y-6">
         {/* Header */}
         <div className="flex items-center justify-between">
-          <div>
-            <h1 className="text-3xl font-bold text-foreground">Audio Subtitle Editor</h1>
-            <p className="text-muted-foreground">Transcribe audio files into editable subtitles</p>
+          <div className="flex items-center gap-4">
+            {project && (
+              <Button variant="ghost" size="icon" onClick={closeProject} title="Back to projects">
+                <ArrowLeft className="w-5 h-5" />
+              </Button>
+            )}
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Audio Subtitle Editor</h1>
+              <p className="text-muted-foreground">
+                {project ? project.name : 'Transcribe audio files into editable subtitles'}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            {project && lastSavedAt && (
+              <span className="text-sm text-muted-foreground">
+                Saved locally {new Date(lastSavedAt).toLocaleTimeString()}
+              </span>
+            )}
+            {project && (
+              <HistoryPanel
+                entries={history.entries}
+                index={history.index}
+                canUndo={history.canUndo}
+                canRedo={history.canRedo}
+                onUndo={undo}
+                onRedo={redo}
+                onJump={history.jumpTo}
+              />
+            )}
+            {project && (
+              <ProjectFileMenu hasAudio={Boolean(audioFile)} onSave={saveProjectFile} />
+            )}
+            <Button variant="ghost" size="icon" onClick={() => setShortcutsOpen(true)} title="Keyboard shortcuts (?)">
+              <Keyboard className="w-4 h-4" />
+            </Button>
+            {user ? (
+              <Button variant="outline" onClick={() => blink.auth.logout()}>
+                Sign Out
+              </Button>
+            ) : (
+              <Button variant="outline" onClick={() => blink.auth.login()} title="Needed for Blink AI transcription">
+                Sign In
+              </Button>
+            )}
           </div>
-          <Button variant="outline" onClick={() => blink.auth.logout()}>
-            Sign Out
-          </Button>
         </div>
 
+        <KeyboardShortcutsDialog
+          open={shortcutsOpen}
+          onOpenChange={setShortcutsOpen}
+          bindings={shortcuts.bindings}
+          onRebind={shortcuts.rebind}
+          onReset={shortcuts.resetBindings}
+        />
+
+        <CommandPalette
+          open={paletteOpen}
+          onOpenChange={setPaletteOpen}
+          bindings={shortcuts.bindings}
+          subtitles={subtitles}
+          onJumpToCue={selectCue}
+          formatTime={formatTime}
+        />
+
+        {timingTool && (
+          <TimingToolsDialog
+            open
+            onOpenChange={(open) => !open && setTimingTool(null)}
+            tool={timingTool}
+            onToolChange={setTimingTool}
+            subtitles={subtitles}
+            selectedSubtitleId={selectedSubtitle}
+            currentTime={currentTime}
+            onApply={(next, label) => setSubtitles(next, { label })}
+          />
+        )}
+
+        {audioFile && retranscribeOpen && (
+          <RetranscribeDialog
+            open
+            onOpenChange={setRetranscribeOpen}
+            subtitles={subtitles}
+            selectedSubtitleId={selectedSubtitle}
+            currentTime={currentTime}
+            duration={duration}
+            onTranscribe={retranscribeRange}
+            onAccept={acceptRetranscription}
+          />
+        )}
+
+        {project && profilesOpen && (
+          <StyleProfilesDialog
+            open
+            onOpenChange={setProfilesOpen}
+            profiles={styleProfiles.profiles}
+            activeProfileId={styleProfile.id}
+            onUse={changeStyleProfile}
+            onSave={styleProfiles.saveProfile}
+            onDelete={styleProfiles.deleteProfile}
+            onImport={styleProfiles.importProfiles}
+          />
+        )}
+
+        {/* Project Library */}
+        {!project && (
+          <ProjectLibrary onOpen={openProject} onCreate={createProjectFromFile} />
+        )}
+
+        <input
+          ref={subtitleInputRef}
+          type="file"
+          accept={acceptedExtensions()}
+          onChange={handleSubtitleUpload}
+          className="hidden"
+        />
+
         {/* Audio Upload */}
-        {!audioFile && (
+        {project && !audioFile && (
           <Card>
             <CardContent className="p-8">
               <div
@@ -343,9 +879,9 @@ export function AudioSubtitleEditor() {
                 onClick={() => fileInputRef.current?.click()}
               >
                 <Upload className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-                <h3 className="text-lg font-medium mb-2">Upload Audio File</h3>
+                <h3 className="text-lg font-medium mb-2">Add Audio</h3>
                 <p className="text-muted-foreground mb-4">
-                  Drag and drop your audio file here, or click to browse
+                  Drag and drop your audio file (or a subtitle file) here, or click to browse
                 </p>
                 <p className="text-sm text-muted-foreground">
                   Supports MP3, WAV, M4A, FLAC, OGG, WebM
@@ -358,6 +894,17 @@ export function AudioSubtitleEditor() {
                   className="hidden"
                 />
               </div>
+              <div className="flex items-center justify-center gap-2 mt-4">
+                <Button variant="outline" onClick={() => subtitleInputRef.current?.click()}>
+                  <FileText className="w-4 h-4 mr-2" />
+                  Load Subtitles
+                </Button>
+                {subtitles.length > 0 && (
+                  <span className="text-sm text-muted-foreground">
+                    {subtitles.length} subtitles loaded, add audio to re-time them
+                  </span>
+                )}
+              </div>
             </CardContent>
           </Card>
         )}
@@ -411,16 +958,27 @@ export function AudioSubtitleEditor() {
                     className="w-24"
                   />
                 </div>
+
+                <Select value={String(playbackRate)} onValueChange={(value) => setPlaybackRate(Number(value))}>
+                  <SelectTrigger className="w-20 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PLAYBACK_RATES.map(rate => (
+                      <SelectItem key={rate} value={String(rate)}>{rate}×</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
 
               {/* Transcription */}
-              <div className="flex gap-4">
+              <div className="flex flex-wrap gap-4">
                 <Button 
                   onClick={transcribeAudio}
-                  disabled={isTranscribing}
+                  disabled={transcription.isRunning}
                   className="flex-1"
                 >
-                  {isTranscribing ? (
+                  {transcription.isRunning ? (
                     <>
                       <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                       Transcribing...
@@ -429,28 +987,92 @@ export function AudioSubtitleEditor() {
                     'Auto-Transcribe'
                   )}
                 </Button>
+
+                {project && (
+                  <LanguagePicker
+                    value={project.language}
+                    onChange={(language) => updateProjectSettings({ language })}
+                    disabled={transcription.isRunning}
+                  />
+                )}
+
+                <Select value={providerId} onValueChange={changeProvider} disabled={transcription.isRunning}>
+                  <SelectTrigger className="w-44" title={getTranscriptionProvider(providerId).description}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {listTranscriptionProviders().map(provider => (
+                      <SelectItem key={provider.id} value={provider.id}>{provider.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                 
+                <Button onClick={() => setRetranscribeOpen(true)} variant="outline" disabled={transcription.isRunning}>
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Re-transcribe Range
+                </Button>
+
+                <Button onClick={() => subtitleInputRef.current?.click()} variant="outline">
+                  <FileText className="w-4 h-4 mr-2" />
+                  Load Subtitles
+                </Button>
+
+                <Button onClick={insertAtPlayhead} variant="outline">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Insert Cue
+                </Button>
+
+                <SpeechDetectionSettings
+                  options={speechOptions}
+                  onChange={setSpeechOptions}
+                  regionCount={speechRegions.length}
+                  isAnalyzing={isAnalyzing}
+                />
+
                 {subtitles.length > 0 && (
-                  <Button onClick={exportSRT} variant="outline">
-                    <Download className="w-4 h-4 mr-2" />
-                    Export SRT
-                  </Button>
+                  <ExportMenu onExport={exportSubtitles} />
                 )}
               </div>
 
-              {/* Transcription Progress */}
-              {isTranscribing && (
-                <div className="space-y-2">
-                  <Progress value={transcriptionProgress} />
-                  <p className="text-sm text-muted-foreground text-center">
-                    Processing audio... {transcriptionProgress}%
-                  </p>
-                </div>
+              {/* Transcription Job */}
+              {transcription.job && (
+                <TranscriptionJobPanel
+                  job={transcription.job}
+                  isRunning={transcription.isRunning}
+                  formatTime={formatTime}
+                  onCancel={transcription.cancel}
+                  onResume={resumeTranscription}
+                  onDismiss={transcription.dismiss}
+                  canResume={!!audioFile}
+                />
               )}
             </CardContent>
           </Card>
         )}
 
+        {/* Waveform */}
+        {audioFile && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Waveform</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <WaveformTimeline
+                envelope={speechAnalysis?.envelope ?? null}
+                duration={duration}
+                currentTime={currentTime}
+                subtitles={subtitles}
+                speechRegions={speechRegions}
+                selectedSubtitleId={selectedSubtitle}
+                currentSubtitleId={currentSubtitleId}
+                onSeek={seekTo}
+                onSelect={setSelectedSubtitle}
+                onTimingChange={updateSubtitleTiming}
+              />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Live Subtitle Display */}
         {subtitles.length > 0 && (
           <Card>
@@ -501,14 +1123,26 @@ export function AudioSubtitleEditor() {
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {/* Subtitle List */}
             <Card>
-              <CardHeader>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
                 <CardTitle>Subtitle Timeline</CardTitle>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => breakLines()}>
+                    <WrapText className="w-4 h-4 mr-2" />
+                    Break Lines
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setTimingTool('shift')}>
+                    <Clock className="w-4 h-4 mr-2" />
+                    Shift / Sync
+                  </Button>
+                </div>
               </CardHeader>
               <CardContent>
                 <div className="space-y-2 max-h-96 overflow-y-auto">
                   {subtitles.map((subtitle) => {
                     const isCurrentlyPlaying = currentSubtitleId === subtitle.id
                     const isSelected = selectedSubtitle === subtitle.id
+                    const cueIssues = qcIssuesByCue.get(subtitle.id)
+                    const hasError = cueIssues?.some(issue => issue.severity === 'error')
                     
                     return (
                       <div
@@ -526,8 +1160,17 @@ export function AudioSubtitleEditor() {
                         }}
                       >
                       <div className="flex justify-between items-center mb-1">
-                        <span className="text-sm font-medium">
+                        <span className="text-sm font-medium flex items-center gap-2">
                           {formatTime(subtitle.startTime)} → {formatTime(subtitle.endTime)}
+                          {cueIssues && (
+                            <span
+                              className={`inline-flex items-center gap-1 text-xs ${hasError ? 'text-destructive' : 'text-accent'}`}
+                              title={cueIssues.map(issue => issue.message).join('\n')}
+                            >
+                              {hasError ? <CircleAlert className="w-3 h-3" /> : <AlertTriangle className="w-3 h-3" />}
+                              {cueIssues.length}
+                            </span>
+                          )}
                         </span>
                         <Button
                           size="sm"
@@ -585,32 +1228,26 @@ export function AudioSubtitleEditor() {
                           <div className="grid grid-cols-2 gap-4">
                             <div>
                               <label className="text-sm font-medium mb-1 block">Start Time</label>
-                              <Input
-                                type="text"
-                                value={formatTime(subtitle.startTime)}
-                                onChange={(e) => {
-                                  const newStartTime = parseTime(e.target.value)
-                                  if (newStartTime >= 0 && newStartTime < subtitle.endTime) {
+                              <CueTimeInput
+                                value={subtitle.startTime}
+                                format={formatTime}
+                                onCommit={(newStartTime) => {
+                                  if (newStartTime < subtitle.endTime) {
                                     updateSubtitleTiming(subtitle.id, newStartTime, subtitle.endTime)
                                   }
                                 }}
-                                placeholder="00:00.000"
-                                className="font-mono text-sm"
                               />
                             </div>
                             <div>
                               <label className="text-sm font-medium mb-1 block">End Time</label>
-                              <Input
-                                type="text"
-                                value={formatTime(subtitle.endTime)}
-                                onChange={(e) => {
-                                  const newEndTime = parseTime(e.target.value)
+                              <CueTimeInput
+                                value={subtitle.endTime}
+                                format={formatTime}
+                                onCommit={(newEndTime) => {
                                   if (newEndTime > subtitle.startTime && newEndTime <= duration) {
                                     updateSubtitleTiming(subtitle.id, subtitle.startTime, newEndTime)
                                   }
                                 }}
-                                placeholder="00:00.000"
-                                className="font-mono text-sm"
                               />
                             </div>
                           </div>
@@ -661,9 +1298,31 @@ export function AudioSubtitleEditor() {
                             </div>
                           </div>
                           
+                          {trackMetadata.styles && trackMetadata.styles.length > 0 && (
+                            <div className="space-y-2">
+                              <label className="text-sm font-medium">Style</label>
+                              <Select
+                                value={subtitle.style ?? 'Default'}
+                                onValueChange={(style) => updateSubtitleStyle(subtitle.id, style)}
+                              >
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {trackMetadata.styles.map(style => (
+                                    <SelectItem key={style.name} value={style.name}>
+                                      {style.name} ({style.fontName}, {style.fontSize})
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          )}
+
                           <div className="space-y-2">
                             <label className="text-sm font-medium">Subtitle Text</label>
                             <Textarea
+                              ref={textareaRef}
                               value={subtitle.text}
                               onChange={(e) => updateSubtitleText(subtitle.id, e.target.value)}
                               placeholder="Enter subtitle text..."
@@ -671,6 +1330,41 @@ export function AudioSubtitleEditor() {
                             />
                           </div>
                           
+                          <div className="grid grid-cols-2 gap-2">
+                            <Button variant="outline" size="sm" onClick={() => splitAtPlayhead(subtitle)}>
+                              <Scissors className="w-4 h-4 mr-2" />
+                              Split at Playhead
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => deleteSubtitle(subtitle)}>
+                              <Trash2 className="w-4 h-4 mr-2" />
+                              Delete
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => mergeWithNeighbour(subtitle, 'previous')}>
+                              <ArrowUpToLine className="w-4 h-4 mr-2" />
+                              Merge Previous
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => mergeWithNeighbour(subtitle, 'next')}>
+                              <ArrowDownToLine className="w-4 h-4 mr-2" />
+                              Merge Next
+                            </Button>
+                          </div>
+
+                          <Button onClick={() => breakLines(subtitle)} variant="outline" className="w-full">
+                            <WrapText className="w-4 h-4 mr-2" />
+                            Break Lines
+                          </Button>
+
+                          {speechRegions.length > 0 && (
+                            <Button
+                              onClick={() => snapSubtitleToSpeech(subtitle)}
+                              variant="outline"
+                              className="w-full"
+                            >
+                              <Magnet className="w-4 h-4 mr-2" />
+                              Snap to Speech
+                            </Button>
+                          )}
+
                           <Button
                             onClick={() => seekTo(subtitle.startTime)}
                             variant="outline"
@@ -694,6 +1388,20 @@ export function AudioSubtitleEditor() {
             </Card>
           </div>
         )}
+
+        {/* Quality Control */}
+        {subtitles.length > 0 && (
+          <div ref={qualityPanelRef}>
+            <QualityPanel
+              issues={qcIssues}
+              subtitles={subtitles}
+              onJump={selectCue}
+              formatTime={formatTime}
+              profileName={styleProfile.name}
+              onManageProfiles={() => setProfilesOpen(true)}
+            />
+          </div>
+        )}
       </div>
     </div>
   )
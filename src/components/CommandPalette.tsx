@@ -0,0 +1,87 @@
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut
+} from './ui/command'
+import { useRegisteredActions } from '../hooks/use-editor-actions'
+import { formatBinding, type ShortcutBindings } from '../lib/shortcuts'
+import type { EditorAction } from '../lib/actions'
+import type { Subtitle } from '../lib/subtitles/types'
+
+interface CommandPaletteProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  bindings: ShortcutBindings
+  subtitles: Subtitle[]
+  onJumpToCue: (subtitle: Subtitle) => void
+  formatTime: (seconds: number) => string
+}
+
+function groupActions(actions: EditorAction[]) {
+  const groups = new Map<string, EditorAction[]>()
+  for (const action of actions) {
+    if (action.disabled) continue
+    groups.set(action.group, [...(groups.get(action.group) ?? []), action])
+  }
+  return Array.from(groups.entries())
+}
+
+/**
+ * Ctrl+K palette over the action registry, plus a "jump to cue" entry per
+ * cue matched by number or text. cmdk's scorer gives the fuzzy matching.
+ */
+export function CommandPalette({ open, onOpenChange, bindings, subtitles, onJumpToCue, formatTime }: CommandPaletteProps) {
+  const actions = useRegisteredActions()
+
+  // Close first so focus is back in the editor before the action runs
+  const runAndClose = (run: () => void) => {
+    onOpenChange(false)
+    run()
+  }
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange}>
+      <CommandInput placeholder="Type a command or search cues..." />
+      <CommandList>
+        <CommandEmpty>No matching commands.</CommandEmpty>
+        {open && groupActions(actions).map(([group, entries]) => (
+          <CommandGroup key={group} heading={group}>
+            {entries.map(action => (
+              <CommandItem
+                key={action.id}
+                value={[action.label, group, ...(action.keywords ?? [])].join(' ')}
+                onSelect={() => runAndClose(action.run)}
+              >
+                {action.label}
+                {(action.shortcut || action.keys) && (
+                  <CommandShortcut>
+                    {action.shortcut ? formatBinding(bindings[action.shortcut]) : action.keys}
+                  </CommandShortcut>
+                )}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        ))}
+        {open && subtitles.length > 0 && (
+          <CommandGroup heading="Jump to cue">
+            {subtitles.map((subtitle, index) => (
+              <CommandItem
+                key={subtitle.id}
+                value={`#${index + 1} ${subtitle.text} ${subtitle.id}`}
+                onSelect={() => runAndClose(() => onJumpToCue(subtitle))}
+              >
+                <span className="text-muted-foreground w-10 shrink-0">#{index + 1}</span>
+                <span className="truncate">{subtitle.text || '(empty)'}</span>
+                <CommandShortcut>{formatTime(subtitle.startTime)}</CommandShortcut>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  )
+}
@@ -0,0 +1,53 @@
+import { useState } from 'react'
+import { Input } from './ui/input'
+import { parseTimecode } from '../lib/subtitles/timecode'
+
+const MINUTES_TIME = /^(\d+):(\d{1,2})(?:[.,](\d{1,3}))?$/
+
+// The editor shows MM:SS.mmm with minutes past 59 on long recordings; full timecodes work too
+function parseCueTime(text: string) {
+  const match = MINUTES_TIME.exec(text.trim())
+  if (!match) return parseTimecode(text)
+
+  const seconds = Number(match[2])
+  if (seconds > 59) return null
+  return Number(match[1]) * 60 + seconds + Number((match[3] ?? '0').padEnd(3, '0')) / 1000
+}
+
+interface CueTimeInputProps {
+  value: number
+  format: (seconds: number) => string
+  // Called with a valid time; a time that doesn't fit the cue is simply not applied
+  onCommit: (seconds: number) => void
+}
+
+/**
+ * A cue time field that is only applied on blur or Enter, so a half-typed
+ * value never reaches the cue. Escape, or a value that doesn't parse, puts
+ * the current time back.
+ */
+export function CueTimeInput({ value, format, onCommit }: CueTimeInputProps) {
+  const [draft, setDraft] = useState<string | null>(null)
+
+  const commit = () => {
+    if (draft === null) return
+    const seconds = parseCueTime(draft)
+    if (seconds !== null && seconds !== value) onCommit(seconds)
+    setDraft(null)
+  }
+
+  return (
+    <Input
+      type="text"
+      value={draft ?? format(value)}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit()
+        if (e.key === 'Escape') setDraft(null)
+      }}
+      placeholder="00:00.000"
+      className={`font-mono text-sm ${draft !== null && parseCueTime(draft) === null ? 'border-destructive' : ''}`}
+    />
+  )
+}
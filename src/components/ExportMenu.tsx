@@ -0,0 +1,56 @@
+import { Download } from 'lucide-react'
+import { Button } from './ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu'
+import { listFormats } from '../lib/subtitles/registry'
+import type { SerializeOptions, SubtitleFormat } from '../lib/subtitles/types'
+
+interface ExportMenuProps {
+  onExport: (format: SubtitleFormat, options: Partial<SerializeOptions>) => void
+}
+
+export function ExportMenu({ onExport }: ExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline">
+          <Download className="w-4 h-4 mr-2" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>Export format</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {listFormats().map(format =>
+          format.variants?.length ? (
+            <DropdownMenuSub key={format.id}>
+              <DropdownMenuSubTrigger>
+                {format.name} (.{format.extensions[0]})
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {format.variants.map(variant => (
+                  <DropdownMenuItem key={variant.label} onSelect={() => onExport(format, variant.options)}>
+                    {variant.label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          ) : (
+            <DropdownMenuItem key={format.id} onSelect={() => onExport(format, {})}>
+              {format.name} (.{format.extensions[0]})
+            </DropdownMenuItem>
+          )
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,59 @@
+import { History, Redo2, Undo2 } from 'lucide-react'
+import { Button } from './ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import type { HistoryEntry } from '../hooks/use-subtitle-history'
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[]
+  index: number
+  canUndo: boolean
+  canRedo: boolean
+  onUndo: () => void
+  onRedo: () => void
+  onJump: (index: number) => void
+}
+
+export function HistoryPanel({ entries, index, canUndo, canRedo, onUndo, onRedo, onJump }: HistoryPanelProps) {
+  return (
+    <div className="flex items-center gap-1">
+      <Button variant="ghost" size="icon" onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+        <Undo2 className="w-4 h-4" />
+      </Button>
+      <Button variant="ghost" size="icon" onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+        <Redo2 className="w-4 h-4" />
+      </Button>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="icon" title="Edit history">
+            <History className="w-4 h-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-72 p-2">
+          <h4 className="font-medium px-2 py-1">History</h4>
+          <div className="max-h-72 overflow-y-auto">
+            {/* Newest first; steps past the current one are the redo branch */}
+            {entries.map((entry, position) => ({ entry, position })).reverse().map(({ entry, position }) => (
+              <button
+                key={`${position}-${entry.timestamp}`}
+                type="button"
+                onClick={() => onJump(position)}
+                className={`w-full flex justify-between gap-2 rounded px-2 py-1 text-left text-sm hover:bg-muted ${
+                  position === index
+                    ? 'bg-primary/10 font-medium'
+                    : position > index
+                    ? 'text-muted-foreground/60'
+                    : ''
+                }`}
+              >
+                <span className="truncate">{entry.label}</span>
+                <span className="text-xs text-muted-foreground shrink-0">
+                  {new Date(entry.timestamp).toLocaleTimeString()}
+                </span>
+              </button>
+            ))}
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  )
+}
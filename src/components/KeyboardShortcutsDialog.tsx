@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react'
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut
+} from './ui/command'
+import { Button } from './ui/button'
+import {
+  SHORTCUT_ACTIONS,
+  eventToBinding,
+  formatBinding,
+  type ShortcutAction,
+  type ShortcutBindings
+} from '../lib/shortcuts'
+
+interface KeyboardShortcutsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  bindings: ShortcutBindings
+  onRebind: (action: ShortcutAction, binding: string | null) => void
+  onReset: () => void
+}
+
+const GROUPS = [...new Set(SHORTCUT_ACTIONS.map(entry => entry.group))]
+
+/**
+ * Searchable list of every shortcut. Choosing an entry records the next key
+ * combination as its new binding; Escape cancels and Backspace unbinds.
+ */
+export function KeyboardShortcutsDialog({ open, onOpenChange, bindings, onRebind, onReset }: KeyboardShortcutsDialogProps) {
+  const [recording, setRecording] = useState<ShortcutAction | null>(null)
+
+  useEffect(() => {
+    if (!open) setRecording(null)
+  }, [open])
+
+  useEffect(() => {
+    if (!recording) return
+
+    // Capture phase on window runs before the dialog, the search box and the shortcut listener
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault()
+      event.stopPropagation()
+
+      if (event.key === 'Escape') {
+        setRecording(null)
+        return
+      }
+      if (event.key === 'Backspace') {
+        onRebind(recording, null)
+        setRecording(null)
+        return
+      }
+
+      const binding = eventToBinding(event)
+      if (!binding) return
+      onRebind(recording, binding)
+      setRecording(null)
+    }
+
+    window.addEventListener('keydown', handleKeyDown, true)
+    return () => window.removeEventListener('keydown', handleKeyDown, true)
+  }, [recording, onRebind])
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange}>
+      <CommandInput placeholder="Search shortcuts..." />
+      <CommandList>
+        <CommandEmpty>No matching shortcuts.</CommandEmpty>
+        {GROUPS.map(group => (
+          <CommandGroup key={group} heading={group}>
+            {SHORTCUT_ACTIONS.filter(entry => entry.group === group).map(entry => (
+              <CommandItem
+                key={entry.action}
+                value={`${entry.label} ${bindings[entry.action] ?? ''}`}
+                onSelect={() => setRecording(entry.action)}
+              >
+                {entry.label}
+                <CommandShortcut>
+                  {recording === entry.action ? 'Press keys…' : formatBinding(bindings[entry.action])}
+                </CommandShortcut>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        ))}
+      </CommandList>
+      <div className="flex items-center justify-between border-t px-3 py-2">
+        <p className="text-xs text-muted-foreground">
+          Select a shortcut to rebind it. Backspace clears, Escape cancels.
+        </p>
+        <Button variant="ghost" size="sm" onClick={onReset}>
+          Reset to defaults
+        </Button>
+      </div>
+    </CommandDialog>
+  )
+}
@@ -0,0 +1,58 @@
+import { useState } from 'react'
+import { Check, ChevronsUpDown, Languages } from 'lucide-react'
+import { Button } from './ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from './ui/command'
+import { AUTO_DETECT_LANGUAGE, LANGUAGES, languageName } from '../lib/languages'
+
+interface LanguagePickerProps {
+  value: string
+  onChange: (code: string) => void
+  disabled?: boolean
+}
+
+export function LanguagePicker({ value, onChange, disabled }: LanguagePickerProps) {
+  const [open, setOpen] = useState(false)
+
+  const select = (code: string) => {
+    onChange(code)
+    setOpen(false)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" aria-expanded={open} disabled={disabled} title="Spoken language">
+          <Languages className="w-4 h-4 mr-2" />
+          {languageName(value)}
+          <ChevronsUpDown className="w-4 h-4 ml-2 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-60 p-0">
+        <Command>
+          <CommandInput placeholder="Search languages..." />
+          <CommandList>
+            <CommandEmpty>No matching language.</CommandEmpty>
+            <CommandGroup>
+              <CommandItem value="Auto-detect" onSelect={() => select(AUTO_DETECT_LANGUAGE)}>
+                <Check className={`w-4 h-4 mr-2 ${value === AUTO_DETECT_LANGUAGE ? 'opacity-100' : 'opacity-0'}`} />
+                Auto-detect
+              </CommandItem>
+              {LANGUAGES.map(language => (
+                <CommandItem
+                  key={language.code}
+                  value={`${language.name} ${language.code}`}
+                  onSelect={() => select(language.code)}
+                >
+                  <Check className={`w-4 h-4 mr-2 ${value === language.code ? 'opacity-100' : 'opacity-0'}`} />
+                  {language.name}
+                  <span className="ml-auto text-xs text-muted-foreground">{language.code}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
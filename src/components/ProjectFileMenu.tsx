@@ -0,0 +1,34 @@
+import { Save } from 'lucide-react'
+import { Button } from './ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu'
+
+interface ProjectFileMenuProps {
+  hasAudio: boolean
+  onSave: (includeAudio: boolean) => void
+}
+
+export function ProjectFileMenu({ hasAudio, onSave }: ProjectFileMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline">
+          <Save className="w-4 h-4 mr-2" />
+          Save
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuItem onSelect={() => onSave(false)}>
+          Save project file (.subproj)
+        </DropdownMenuItem>
+        <DropdownMenuItem disabled={!hasAudio} onSelect={() => onSave(true)}>
+          Save project file with audio
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
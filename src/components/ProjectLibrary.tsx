@@ -0,0 +1,320 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { Upload, FileText, Search, Copy, Pencil, Trash2, FolderOpen, FolderInput, FileAudio } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { Button } from './ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Input } from './ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { acceptedExtensions } from '../lib/subtitles/registry'
+import {
+  deleteProject,
+  duplicateProject,
+  getLastProjectId,
+  listProjects,
+  updateProject
+} from '../lib/projects/store'
+import { PROJECT_STATUSES, type Project, type ProjectStatus } from '../lib/projects/types'
+import { PROJECT_FILE_EXTENSION } from '../lib/projects/file'
+
+interface ProjectLibraryProps {
+  onOpen: (project: Project) => void
+  // Starts a project from a dropped or picked audio, subtitle or .subproj file
+  onCreate: (file: File) => void
+}
+
+type SortKey = 'modified' | 'created' | 'name'
+
+const SORTERS: Record<SortKey, (a: Project, b: Project) => number> = {
+  modified: (a, b) => b.modifiedAt - a.modifiedAt,
+  created: (a, b) => b.createdAt - a.createdAt,
+  name: (a, b) => a.name.localeCompare(b.name)
+}
+
+export function ProjectLibrary({ onOpen, onCreate }: ProjectLibraryProps) {
+  const [projects, setProjects] = useState<Project[]>([])
+  const [lastProjectId, setLastProjectIdState] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [search, setSearch] = useState('')
+  const [sortKey, setSortKey] = useState<SortKey>('modified')
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameValue, setRenameValue] = useState('')
+
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const subtitleInputRef = useRef<HTMLInputElement>(null)
+  const projectInputRef = useRef<HTMLInputElement>(null)
+
+  const refresh = async () => {
+    try {
+      const [stored, lastId] = await Promise.all([listProjects(), getLastProjectId()])
+      setProjects(stored)
+      setLastProjectIdState(lastId)
+    } catch (error) {
+      console.error('Unable to load projects:', error)
+      toast.error('Unable to load saved projects')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    refresh()
+  }, [])
+
+  const visibleProjects = useMemo(() => {
+    const query = search.trim().toLowerCase()
+    return projects
+      .filter(project =>
+        !query ||
+        project.name.toLowerCase().includes(query) ||
+        project.audio?.name.toLowerCase().includes(query)
+      )
+      .sort(SORTERS[sortKey])
+  }, [projects, search, sortKey])
+
+  const lastProject = projects.find(project => project.id === lastProjectId)
+
+  const handleFileInput = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (file) onCreate(file)
+  }
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault()
+    const file = event.dataTransfer.files[0]
+    if (file) onCreate(file)
+  }
+
+  const startRename = (project: Project) => {
+    setRenamingId(project.id)
+    setRenameValue(project.name)
+  }
+
+  const commitRename = async () => {
+    const id = renamingId
+    const name = renameValue.trim()
+    setRenamingId(null)
+    if (!id || !name) return
+
+    try {
+      await updateProject(id, { name })
+    } catch (error) {
+      console.error('Unable to rename project:', error)
+      toast.error('Unable to rename the project')
+    }
+    await refresh()
+  }
+
+  const changeStatus = async (id: string, status: ProjectStatus) => {
+    try {
+      await updateProject(id, { status })
+    } catch (error) {
+      console.error('Unable to change project status:', error)
+      toast.error('Unable to change the project status')
+    }
+    await refresh()
+  }
+
+  const handleDuplicate = async (project: Project) => {
+    try {
+      await duplicateProject(project.id)
+    } catch (error) {
+      console.error('Unable to duplicate project:', error)
+      toast.error(`Unable to duplicate ${project.name}`)
+    }
+    await refresh()
+  }
+
+  const handleDelete = async (project: Project) => {
+    if (!confirm(`Delete "${project.name}"? This cannot be undone.`)) return
+    try {
+      await deleteProject(project.id)
+    } catch (error) {
+      console.error('Unable to delete project:', error)
+      toast.error(`Unable to delete ${project.name}`)
+    }
+    await refresh()
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Restore last session */}
+      {lastProject && (
+        <Card className="border-primary">
+          <CardContent className="p-4 flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <p className="font-medium">Continue where you left off?</p>
+              <p className="text-sm text-muted-foreground">
+                {lastProject.name}, {lastProject.subtitles.length} subtitles, saved {new Date(lastProject.modifiedAt).toLocaleString()}
+              </p>
+            </div>
+            <Button onClick={() => onOpen(lastProject)}>
+              <FolderOpen className="w-4 h-4 mr-2" />
+              Restore
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* New project */}
+      <Card>
+        <CardContent className="p-8">
+          <div
+            className="border-2 border-dashed border-border rounded-lg p-12 text-center cursor-pointer hover:border-primary transition-colors"
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={handleDrop}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-medium mb-2">New Project</h3>
+            <p className="text-muted-foreground mb-4">
+              Drag and drop your audio file (or a subtitle file) here, or click to browse
+            </p>
+            <p className="text-sm text-muted-foreground">
+              Supports MP3, WAV, M4A, FLAC, OGG, WebM
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="audio/*"
+              onChange={handleFileInput}
+              className="hidden"
+            />
+          </div>
+          <div className="flex items-center justify-center gap-2 mt-4">
+            <Button variant="outline" onClick={() => subtitleInputRef.current?.click()}>
+              <FileText className="w-4 h-4 mr-2" />
+              Start from Subtitles
+            </Button>
+            <input
+              ref={subtitleInputRef}
+              type="file"
+              accept={acceptedExtensions()}
+              onChange={handleFileInput}
+              className="hidden"
+            />
+            <Button variant="outline" onClick={() => projectInputRef.current?.click()}>
+              <FolderInput className="w-4 h-4 mr-2" />
+              Open Project File
+            </Button>
+            <input
+              ref={projectInputRef}
+              type="file"
+              accept={`.${PROJECT_FILE_EXTENSION}`}
+              onChange={handleFileInput}
+              className="hidden"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Library */}
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4 space-y-0">
+          <CardTitle>Projects</CardTitle>
+          <div className="flex items-center gap-2">
+            <div className="relative">
+              <Search className="w-4 h-4 absolute left-2.5 top-1/2 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search projects..."
+                className="pl-8 w-56"
+              />
+            </div>
+            <Select value={sortKey} onValueChange={(value) => setSortKey(value as SortKey)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="modified">Last modified</SelectItem>
+                <SelectItem value="created">Date created</SelectItem>
+                <SelectItem value="name">Name</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-center py-8 text-muted-foreground">Loading projects...</p>
+          ) : visibleProjects.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">
+              {projects.length === 0 ? 'No projects yet. Upload an audio file to start one.' : 'No projects match your search.'}
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {visibleProjects.map(project => (
+                <div
+                  key={project.id}
+                  className="flex flex-wrap items-center gap-4 p-3 border rounded-lg hover:border-primary/50 transition-colors"
+                >
+                  <div className="flex-1 min-w-48">
+                    {renamingId === project.id ? (
+                      <Input
+                        autoFocus
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename()
+                          if (e.key === 'Escape') setRenamingId(null)
+                        }}
+                        className="h-8"
+                      />
+                    ) : (
+                      <button
+                        type="button"
+                        className="font-medium hover:underline text-left"
+                        onClick={() => onOpen(project)}
+                      >
+                        {project.name}
+                      </button>
+                    )}
+                    <p className="text-sm text-muted-foreground flex items-center gap-1">
+                      <FileAudio className="w-3 h-3" />
+                      {project.audio?.name ?? 'No audio'} · {project.subtitles.length} subtitles · {project.language.toUpperCase()}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Created {new Date(project.createdAt).toLocaleDateString()} · Modified {new Date(project.modifiedAt).toLocaleString()}
+                    </p>
+                  </div>
+
+                  <Select
+                    value={project.status}
+                    onValueChange={(status) => changeStatus(project.id, status as ProjectStatus)}
+                  >
+                    <SelectTrigger className="w-32 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PROJECT_STATUSES.map(status => (
+                        <SelectItem key={status.value} value={status.value}>
+                          {status.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+
+                  <div className="flex items-center gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => onOpen(project)} title="Open">
+                      <FolderOpen className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => startRename(project)} title="Rename">
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDuplicate(project)} title="Duplicate">
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(project)} title="Delete">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+import { AlertTriangle, CheckCircle2, CircleAlert, SlidersHorizontal } from 'lucide-react'
+import { Button } from './ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import type { Subtitle } from '../lib/subtitles/types'
+import type { QcIssue } from '../lib/subtitles/qc'
+
+interface QualityPanelProps {
+  issues: QcIssue[]
+  subtitles: Subtitle[]
+  onJump: (subtitle: Subtitle) => void
+  formatTime: (seconds: number) => string
+  profileName: string
+  onManageProfiles: () => void
+}
+
+export function QualityPanel({ issues, subtitles, onJump, formatTime, profileName, onManageProfiles }: QualityPanelProps) {
+  const cueNumbers = new Map(subtitles.map((subtitle, index) => [subtitle.id, index + 1]))
+  const cuesById = new Map(subtitles.map(subtitle => [subtitle.id, subtitle]))
+  const errorCount = issues.filter(issue => issue.severity === 'error').length
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle>Quality Control</CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            {errorCount} errors, {issues.length - errorCount} warnings against {profileName}
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={onManageProfiles}>
+          <SlidersHorizontal className="w-4 h-4 mr-2" />
+          Style Profile
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {issues.length === 0 ? (
+          <div className="flex items-center justify-center gap-2 py-6 text-muted-foreground">
+            <CheckCircle2 className="w-5 h-5 text-primary" />
+            All cues pass the checks
+          </div>
+        ) : (
+          <div className="space-y-1 max-h-72 overflow-y-auto">
+            {issues.map((issue, index) => {
+              const cue = cuesById.get(issue.cueId)
+              if (!cue) return null
+
+              return (
+                <button
+                  key={`${issue.cueId}-${issue.rule}-${index}`}
+                  type="button"
+                  onClick={() => onJump(cue)}
+                  className="w-full flex items-center gap-3 rounded px-2 py-1.5 text-left text-sm hover:bg-muted"
+                >
+                  {issue.severity === 'error' ? (
+                    <CircleAlert className="w-4 h-4 shrink-0 text-destructive" />
+                  ) : (
+                    <AlertTriangle className="w-4 h-4 shrink-0 text-accent" />
+                  )}
+                  <span className="w-12 shrink-0 text-muted-foreground">#{cueNumbers.get(cue.id)}</span>
+                  <span className="w-24 shrink-0 font-mono text-xs text-muted-foreground">{formatTime(cue.startTime)}</span>
+                  <span className="flex-1">{issue.message}</span>
+                </button>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,209 @@
+import { useEffect, useRef, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
+import type { Subtitle } from '../lib/subtitles/types'
+import { formatTimecode, parseTimecode } from '../lib/subtitles/timecode'
+import { cuesInRange, type TimeRange } from '../lib/subtitles/edit'
+
+type RangeMode = 'time' | 'cues'
+
+interface RetranscribeDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  subtitles: Subtitle[]
+  selectedSubtitleId: string | null
+  currentTime: number
+  duration: number
+  onTranscribe: (range: TimeRange, signal: AbortSignal) => Promise<Subtitle[]>
+  onAccept: (range: TimeRange, subtitles: Subtitle[]) => void
+}
+
+// The length of range offered around the playhead when no cue is selected
+const DEFAULT_RANGE_LENGTH = 10
+
+function ordered(subtitles: Subtitle[]) {
+  return [...subtitles].sort((a, b) => a.startTime - b.startTime)
+}
+
+function CueList({ title, cues }: { title: string; cues: Subtitle[] }) {
+  return (
+    <div className="min-w-0">
+      <h4 className="text-sm font-medium mb-2">{title}</h4>
+      <div className="space-y-1 max-h-64 overflow-y-auto rounded border p-2">
+        {cues.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No cues</p>
+        ) : (
+          cues.map(cue => (
+            <div key={cue.id} className="text-sm">
+              <span className="font-mono text-xs text-muted-foreground">{formatTimecode(cue.startTime, '.')}</span>
+              <p className="whitespace-pre-line">{cue.text}</p>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
+
+export function RetranscribeDialog({
+  open,
+  onOpenChange,
+  subtitles,
+  selectedSubtitleId,
+  currentTime,
+  duration,
+  onTranscribe,
+  onAccept
+}: RetranscribeDialogProps) {
+  const cues = ordered(subtitles)
+  const selectedIndex = cues.findIndex(sub => sub.id === selectedSubtitleId)
+  const selected = cues[selectedIndex]
+
+  // The dialog is mounted on open, so these defaults follow the selection as it is then
+  const [mode, setMode] = useState<RangeMode>(selected ? 'cues' : 'time')
+  const [startText, setStartText] = useState(() => formatTimecode(selected?.startTime ?? currentTime, '.'))
+  const [endText, setEndText] = useState(() =>
+    formatTimecode(selected?.endTime ?? Math.min(duration, currentTime + DEFAULT_RANGE_LENGTH), '.')
+  )
+  const [firstCue, setFirstCue] = useState(String(selectedIndex === -1 ? 1 : selectedIndex + 1))
+  const [lastCue, setLastCue] = useState(String(selectedIndex === -1 ? 1 : selectedIndex + 1))
+  const [result, setResult] = useState<{ range: TimeRange; subtitles: Subtitle[] } | null>(null)
+  const [isTranscribing, setIsTranscribing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  // Closing the dialog stops a transcription still in flight
+  useEffect(() => () => controllerRef.current?.abort(), [])
+
+  // Checked after clamping to the recording, so a range starting past its end isn't offered
+  const withinAudio = (start: number, end: number): TimeRange | null => {
+    const clamped = Math.min(end, duration)
+    return clamped > start ? { start, end: clamped } : null
+  }
+
+  const range = ((): TimeRange | null => {
+    if (mode === 'time') {
+      const start = parseTimecode(startText)
+      const end = parseTimecode(endText)
+      return start !== null && end !== null ? withinAudio(start, end) : null
+    }
+    const first = cues[Number(firstCue) - 1]
+    const last = cues[Number(lastCue) - 1]
+    return first && last ? withinAudio(first.startTime, last.endTime) : null
+  })()
+
+  const transcribe = async () => {
+    if (!range) return
+    const controller = new AbortController()
+    controllerRef.current = controller
+    setIsTranscribing(true)
+    setError(null)
+    setResult(null)
+
+    try {
+      setResult({ range, subtitles: await onTranscribe(range, controller.signal) })
+    } catch (error) {
+      if (controller.signal.aborted) return
+      console.error('Re-transcription failed:', error)
+      setError(error instanceof Error ? error.message : 'Transcription failed')
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null
+        setIsTranscribing(false)
+      }
+    }
+  }
+
+  const accept = () => {
+    if (!result) return
+    onAccept(result.range, result.subtitles)
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Re-transcribe a range</DialogTitle>
+          <DialogDescription>
+            Transcribe one stretch of the audio again and review it. Accepting replaces only the cues
+            in that range; edits elsewhere are kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={mode} onValueChange={(value) => setMode(value as RangeMode)}>
+          <TabsList className="grid grid-cols-2 w-full">
+            <TabsTrigger value="time">Time range</TabsTrigger>
+            <TabsTrigger value="cues" disabled={cues.length === 0}>Cues</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="time">
+            <div className="grid grid-cols-2 gap-4">
+              {([['From', startText, setStartText], ['To', endText, setEndText]] as const).map(([label, value, setValue]) => (
+                <div key={label}>
+                  <label className="text-sm font-medium mb-1 block">{label}</label>
+                  <div className="flex gap-2">
+                    <Input
+                      value={value}
+                      onChange={(e) => setValue(e.target.value)}
+                      placeholder="00:00:00.000"
+                      className="font-mono text-sm"
+                    />
+                    <Button variant="outline" onClick={() => setValue(formatTimecode(currentTime, '.'))}>
+                      Playhead
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="cues">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-medium mb-1 block">First cue #</label>
+                <Input type="number" min={1} max={cues.length} value={firstCue} onChange={(e) => setFirstCue(e.target.value)} />
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-1 block">Last cue #</label>
+                <Input type="number" min={1} max={cues.length} value={lastCue} onChange={(e) => setLastCue(e.target.value)} />
+              </div>
+            </div>
+          </TabsContent>
+        </Tabs>
+
+        <p className="text-sm text-muted-foreground">
+          {range
+            ? `${formatTimecode(range.start, '.')} – ${formatTimecode(range.end, '.')}, ${cuesInRange(subtitles, range).length} cues now`
+            : 'Choose a valid range'}
+        </p>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {result && (
+          <div className="grid grid-cols-2 gap-4">
+            <CueList title="Current" cues={cuesInRange(subtitles, result.range)} />
+            <CueList title="Re-transcribed" cues={result.subtitles} />
+          </div>
+        )}
+
+        <DialogFooter>
+          {result ? (
+            <>
+              <Button variant="outline" onClick={() => setResult(null)}>Discard</Button>
+              <Button onClick={accept}>Replace {cuesInRange(subtitles, result.range).length} cues</Button>
+            </>
+          ) : (
+            <Button onClick={transcribe} disabled={!range || isTranscribing}>
+              {isTranscribing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {isTranscribing ? 'Transcribing...' : 'Transcribe range'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
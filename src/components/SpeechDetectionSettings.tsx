@@ -0,0 +1,65 @@
+import { AudioWaveform, Loader2 } from 'lucide-react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import { DEFAULT_SPEECH_DETECTION, type SpeechDetectionOptions } from '../lib/transcription/vad'
+
+interface SpeechDetectionSettingsProps {
+  options: SpeechDetectionOptions
+  onChange: (options: SpeechDetectionOptions) => void
+  regionCount: number
+  isAnalyzing: boolean
+}
+
+const FIELDS: { key: keyof SpeechDetectionOptions; label: string; unit: string; step: number }[] = [
+  { key: 'threshold', label: 'Threshold', unit: 'dBFS', step: 1 },
+  { key: 'minSilence', label: 'Minimum silence', unit: 's', step: 0.05 },
+  { key: 'padding', label: 'Padding', unit: 's', step: 0.05 },
+  { key: 'minSpeech', label: 'Minimum speech', unit: 's', step: 0.05 }
+]
+
+export function SpeechDetectionSettings({ options, onChange, regionCount, isAnalyzing }: SpeechDetectionSettingsProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline">
+          {isAnalyzing ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <AudioWaveform className="w-4 h-4 mr-2" />
+          )}
+          {isAnalyzing ? 'Analysing…' : `${regionCount} speech regions`}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3">
+        <div>
+          <h4 className="font-medium">Speech detection</h4>
+          <p className="text-sm text-muted-foreground">
+            Cue boundaries follow the pauses found with these settings.
+          </p>
+        </div>
+        {FIELDS.map(field => (
+          <div key={field.key} className="grid grid-cols-2 items-center gap-2">
+            <label className="text-sm" htmlFor={`speech-${field.key}`}>
+              {field.label} ({field.unit})
+            </label>
+            <Input
+              id={`speech-${field.key}`}
+              type="number"
+              step={field.step}
+              value={options[field.key]}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value)
+                if (Number.isFinite(value)) onChange({ ...options, [field.key]: value })
+              }}
+              className="h-8"
+            />
+          </div>
+        ))}
+        <Button variant="ghost" size="sm" onClick={() => onChange(DEFAULT_SPEECH_DETECTION)}>
+          Reset to defaults
+        </Button>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,239 @@
+import React, { useRef, useState } from 'react'
+import { Check, Copy, Download, Plus, Trash2, Upload } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { downloadFile } from '../lib/download'
+import {
+  BUILT_IN_PROFILES,
+  FRAME_RATES,
+  createStyleProfileId,
+  formatFrameRate,
+  parseStyleProfiles,
+  serializeStyleProfiles,
+  type StyleProfile
+} from '../lib/profiles'
+
+interface StyleProfilesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  profiles: StyleProfile[]
+  // The profile the open project uses
+  activeProfileId: string
+  onUse: (id: string) => void
+  onSave: (profile: StyleProfile) => void
+  onDelete: (id: string) => void
+  onImport: (profiles: StyleProfile[]) => StyleProfile[]
+}
+
+type NumericField = 'maxCps' | 'maxCharsPerLine' | 'maxLines' | 'minDuration' | 'maxDuration' | 'minGapFrames'
+
+// Line limits start at 1; a cue with no lines can't be laid out
+const NUMERIC_FIELDS: { field: NumericField; label: string; step: number; integer?: boolean; min?: number }[] = [
+  { field: 'maxCps', label: 'Max characters / second', step: 1 },
+  { field: 'maxCharsPerLine', label: 'Max characters / line', step: 1, integer: true, min: 1 },
+  { field: 'maxLines', label: 'Max lines', step: 1, integer: true, min: 1 },
+  { field: 'minGapFrames', label: 'Min gap (frames)', step: 1, integer: true },
+  { field: 'minDuration', label: 'Min duration (s)', step: 0.1 },
+  { field: 'maxDuration', label: 'Max duration (s)', step: 0.5 }
+]
+
+/**
+ * Lists the built-in and custom profiles and edits the custom ones in place.
+ * Built-in profiles are read-only; duplicating one is the way to adjust it.
+ */
+export function StyleProfilesDialog({
+  open,
+  onOpenChange,
+  profiles,
+  activeProfileId,
+  onUse,
+  onSave,
+  onDelete,
+  onImport
+}: StyleProfilesDialogProps) {
+  const [viewedId, setViewedId] = useState(activeProfileId)
+  const importInputRef = useRef<HTMLInputElement>(null)
+
+  const profile = profiles.find(entry => entry.id === viewedId) ?? profiles[0]
+  const readOnly = Boolean(profile.builtIn)
+  const frameRates = FRAME_RATES.includes(profile.frameRate) ? FRAME_RATES : [...FRAME_RATES, profile.frameRate]
+
+  const change = (changes: Partial<StyleProfile>) => {
+    if (!readOnly) onSave({ ...profile, ...changes })
+  }
+
+  const duplicate = (source: StyleProfile, name = `${source.name} copy`) => {
+    const { builtIn: _builtIn, ...copy } = source
+    const created = { ...copy, id: createStyleProfileId(), name }
+    onSave(created)
+    setViewedId(created.id)
+  }
+
+  const remove = () => {
+    if (!confirm(`Delete the ${profile.name} profile? Projects using it go back to the default.`)) return
+    onDelete(profile.id)
+    setViewedId(activeProfileId === profile.id ? BUILT_IN_PROFILES[0].id : activeProfileId)
+  }
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      const imported = onImport(parseStyleProfiles(await file.text()))
+      setViewedId(imported[0].id)
+      toast.success(`Imported ${imported.length} profile${imported.length === 1 ? '' : 's'}`)
+    } catch (error) {
+      console.error('Unable to import style profiles:', error)
+      toast.error(`Unable to import ${file.name}: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  const exportProfile = () => {
+    const fileName = profile.name.replace(/[^\w-]+/g, '-').toLowerCase()
+    downloadFile(serializeStyleProfiles([profile]), `${fileName}.json`, 'application/json')
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Style profiles</DialogTitle>
+          <DialogDescription>
+            Delivery limits for quality checks, transcription and export. Each project uses one profile.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[14rem_1fr] gap-6">
+          <div className="space-y-2">
+            <div className="space-y-1 max-h-80 overflow-y-auto">
+              {profiles.map(entry => (
+                <button
+                  key={entry.id}
+                  type="button"
+                  onClick={() => setViewedId(entry.id)}
+                  className={`w-full flex items-center gap-2 rounded px-2 py-1.5 text-left text-sm ${
+                    entry.id === profile.id ? 'bg-muted font-medium' : 'hover:bg-muted'
+                  }`}
+                >
+                  <span className="flex-1 truncate">{entry.name}</span>
+                  {entry.builtIn && <span className="text-xs text-muted-foreground">Built-in</span>}
+                  {entry.id === activeProfileId && <Check className="w-4 h-4 text-primary" />}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" className="flex-1" onClick={() => duplicate(BUILT_IN_PROFILES[0], 'New profile')}>
+                <Plus className="w-4 h-4 mr-1" />
+                New
+              </Button>
+              <Button variant="outline" size="sm" className="flex-1" onClick={() => importInputRef.current?.click()}>
+                <Upload className="w-4 h-4 mr-1" />
+                Import
+              </Button>
+            </div>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleImport}
+              className="hidden"
+            />
+          </div>
+
+          {/* Keyed by profile so the uncontrolled fields start from the profile being viewed */}
+          <div key={profile.id} className="space-y-4">
+            <div>
+              <label className="text-sm font-medium mb-1 block">Name</label>
+              <Input
+                defaultValue={profile.name}
+                disabled={readOnly}
+                onChange={(e) => e.target.value.trim() && change({ name: e.target.value.trim() })}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {NUMERIC_FIELDS.map(({ field, label, step, integer, min = 0 }) => (
+                <div key={field}>
+                  <label className="text-sm font-medium mb-1 block">{label}</label>
+                  <Input
+                    type="number"
+                    min={min}
+                    step={step}
+                    defaultValue={Number(profile[field].toFixed(3))}
+                    disabled={readOnly}
+                    onChange={(e) => {
+                      const value = e.target.value === '' ? NaN : Number(e.target.value)
+                      if (Number.isFinite(value) && value >= min && (!integer || Number.isInteger(value))) {
+                        change({ [field]: value })
+                      }
+                    }}
+                  />
+                </div>
+              ))}
+
+              <div>
+                <label className="text-sm font-medium mb-1 block">Frame rate</label>
+                <Select
+                  value={String(profile.frameRate)}
+                  disabled={readOnly}
+                  onValueChange={(value) => change({ frameRate: Number(value) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {frameRates.map(rate => (
+                      <SelectItem key={rate} value={String(rate)}>{formatFrameRate(rate)} fps</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <label className="text-sm font-medium mb-1 block">Allowed tags</label>
+                <Input
+                  defaultValue={profile.allowedTags.join(', ')}
+                  disabled={readOnly}
+                  placeholder="i, b"
+                  onChange={(e) => change({
+                    allowedTags: e.target.value.split(/[\s,]+/).map(tag => tag.replace(/[<>/]/g, '').toLowerCase()).filter(Boolean)
+                  })}
+                />
+              </div>
+            </div>
+
+            {readOnly && (
+              <p className="text-sm text-muted-foreground">Built-in profiles can't be changed. Duplicate this one to adjust it.</p>
+            )}
+
+            <div className="flex flex-wrap gap-2 pt-2">
+              <Button onClick={() => onUse(profile.id)} disabled={profile.id === activeProfileId}>
+                <Check className="w-4 h-4 mr-2" />
+                {profile.id === activeProfileId ? 'Used by this project' : 'Use for this project'}
+              </Button>
+              <Button variant="outline" onClick={() => duplicate(profile)}>
+                <Copy className="w-4 h-4 mr-2" />
+                Duplicate
+              </Button>
+              <Button variant="outline" onClick={exportProfile}>
+                <Download className="w-4 h-4 mr-2" />
+                Export JSON
+              </Button>
+              {!readOnly && (
+                <Button variant="outline" onClick={remove}>
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
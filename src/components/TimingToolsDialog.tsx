@@ -0,0 +1,215 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import type { Subtitle } from '../lib/subtitles/types'
+import { formatTimecode, parseTimecode } from '../lib/subtitles/timecode'
+import {
+  FRAME_RATE_CONVERSIONS,
+  frameRateMapping,
+  mapCueTimes,
+  shiftCues,
+  twoPointMapping
+} from '../lib/subtitles/resync'
+
+export type TimingTool = 'shift' | 'sync' | 'framerate'
+
+type ShiftScope = 'all' | 'selected' | 'fromSelected'
+
+interface TimingToolsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  tool: TimingTool
+  onToolChange: (tool: TimingTool) => void
+  subtitles: Subtitle[]
+  selectedSubtitleId: string | null
+  currentTime: number
+  onApply: (subtitles: Subtitle[], label: string) => void
+}
+
+interface SyncPointInput {
+  cue: string
+  time: string
+}
+
+function ordered(subtitles: Subtitle[]) {
+  return [...subtitles].sort((a, b) => a.startTime - b.startTime)
+}
+
+export function TimingToolsDialog({
+  open,
+  onOpenChange,
+  tool,
+  onToolChange,
+  subtitles,
+  selectedSubtitleId,
+  currentTime,
+  onApply
+}: TimingToolsDialogProps) {
+  const cues = ordered(subtitles)
+  const selectedIndex = cues.findIndex(sub => sub.id === selectedSubtitleId)
+
+  // The dialog is mounted on open, so these defaults follow the track as it is then
+  const [offsetMs, setOffsetMs] = useState('0')
+  const [scope, setScope] = useState<ShiftScope>(selectedIndex === -1 ? 'all' : 'fromSelected')
+  const [points, setPoints] = useState<[SyncPointInput, SyncPointInput]>(() => [
+    { cue: '1', time: cues.length ? formatTimecode(cues[0].startTime, '.') : '' },
+    { cue: String(cues.length), time: cues.length ? formatTimecode(cues[cues.length - 1].startTime, '.') : '' }
+  ])
+  const [conversion, setConversion] = useState(0)
+
+  const referenceCue = (input: SyncPointInput) => cues[Number(input.cue) - 1]
+
+  const updatePoint = (index: 0 | 1, changes: Partial<SyncPointInput>) => {
+    setPoints(prev => {
+      const next: [SyncPointInput, SyncPointInput] = [{ ...prev[0] }, { ...prev[1] }]
+      next[index] = { ...next[index], ...changes }
+      return next
+    })
+  }
+
+  const applyShift = () => {
+    const offset = Number(offsetMs) / 1000
+    if (!Number.isFinite(offset) || offset === 0) return
+
+    const ids = scope === 'all'
+      ? undefined
+      : new Set((scope === 'selected' ? cues.slice(selectedIndex, selectedIndex + 1) : cues.slice(selectedIndex)).map(sub => sub.id))
+    const count = ids ? ids.size : cues.length
+    onApply(shiftCues(subtitles, offset, ids), `Shift ${count} cues by ${offset > 0 ? '+' : ''}${Math.round(offset * 1000)} ms`)
+    onOpenChange(false)
+  }
+
+  const syncPoints = points.map(point => {
+    const cue = referenceCue(point)
+    const time = parseTimecode(point.time)
+    return cue && time !== null ? { from: cue.startTime, to: time } : null
+  })
+  const mapping = syncPoints[0] && syncPoints[1] ? twoPointMapping(syncPoints[0], syncPoints[1]) : null
+
+  const applySync = () => {
+    if (!mapping) return
+    onApply(mapCueTimes(subtitles, mapping), 'Two-point sync')
+    onOpenChange(false)
+  }
+
+  const applyConversion = () => {
+    const { label, from, to } = FRAME_RATE_CONVERSIONS[conversion]
+    onApply(mapCueTimes(subtitles, frameRateMapping(from, to)), `Convert ${label}`)
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Timing tools</DialogTitle>
+          <DialogDescription>Move or stretch cue times to match a different cut or frame rate.</DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tool} onValueChange={(value) => onToolChange(value as TimingTool)}>
+          <TabsList className="grid grid-cols-3 w-full">
+            <TabsTrigger value="shift">Shift</TabsTrigger>
+            <TabsTrigger value="sync">Two-point sync</TabsTrigger>
+            <TabsTrigger value="framerate">Frame rate</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="shift" className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-medium mb-1 block">Offset (ms)</label>
+                <Input
+                  type="number"
+                  step={100}
+                  value={offsetMs}
+                  onChange={(e) => setOffsetMs(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-1 block">Cues</label>
+                <Select value={scope} onValueChange={(value) => setScope(value as ShiftScope)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All cues</SelectItem>
+                    <SelectItem value="selected" disabled={selectedIndex === -1}>Selected cue</SelectItem>
+                    <SelectItem value="fromSelected" disabled={selectedIndex === -1}>Selected cue onwards</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">Negative values move cues earlier.</p>
+            <Button className="w-full" onClick={applyShift}>Apply shift</Button>
+          </TabsContent>
+
+          <TabsContent value="sync" className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Pick two cues far apart and enter when each should start. Every cue is stretched and
+              offset to fit, which also corrects frame rate drift.
+            </p>
+            {([0, 1] as const).map(index => {
+              const cue = referenceCue(points[index])
+              return (
+                <div key={index} className="space-y-1">
+                  <div className="grid grid-cols-[6rem_1fr_auto] gap-2 items-end">
+                    <div>
+                      <label className="text-sm font-medium mb-1 block">Cue #</label>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={cues.length}
+                        value={points[index].cue}
+                        onChange={(e) => updatePoint(index, { cue: e.target.value })}
+                      />
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium mb-1 block">Correct start</label>
+                      <Input
+                        value={points[index].time}
+                        onChange={(e) => updatePoint(index, { time: e.target.value })}
+                        placeholder="00:00:00.000"
+                        className="font-mono text-sm"
+                      />
+                    </div>
+                    <Button variant="outline" onClick={() => updatePoint(index, { time: formatTimecode(currentTime, '.') })}>
+                      Use playhead
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {cue ? `Now at ${formatTimecode(cue.startTime, '.')}: ${cue.text}` : 'No such cue'}
+                  </p>
+                </div>
+              )
+            })}
+            <p className="text-sm">
+              {mapping
+                ? `Scale ×${mapping.scale.toFixed(5)}, offset ${mapping.offset >= 0 ? '+' : ''}${mapping.offset.toFixed(3)} s`
+                : 'Choose two different cues and valid times'}
+            </p>
+            <Button className="w-full" onClick={applySync} disabled={!mapping}>Apply sync</Button>
+          </TabsContent>
+
+          <TabsContent value="framerate" className="space-y-4">
+            <Select value={String(conversion)} onValueChange={(value) => setConversion(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FRAME_RATE_CONVERSIONS.map((entry, index) => (
+                  <SelectItem key={entry.label} value={String(index)}>{entry.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">
+              Stretches every cue by the ratio of the two frame rates.
+            </p>
+            <Button className="w-full" onClick={applyConversion}>Convert</Button>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,105 @@
+import { Loader2, Play, Square, X } from 'lucide-react'
+import { Button } from './ui/button'
+import { Progress } from './ui/progress'
+import type { ChunkStatus, TranscriptionJob } from '../lib/transcription/jobs'
+
+interface TranscriptionJobPanelProps {
+  job: TranscriptionJob
+  isRunning: boolean
+  formatTime: (seconds: number) => string
+  onCancel: () => void
+  onResume: () => void
+  onDismiss: () => void
+  // Resuming needs the recording, which isn't there until it has been loaded
+  canResume: boolean
+}
+
+const CHUNK_COLORS: Record<ChunkStatus, string> = {
+  pending: 'bg-muted',
+  running: 'bg-primary/50 animate-pulse',
+  retrying: 'bg-accent animate-pulse',
+  done: 'bg-primary',
+  failed: 'bg-destructive'
+}
+
+function statusLine(job: TranscriptionJob, isRunning: boolean) {
+  const done = job.chunks.filter(chunk => chunk.status === 'done').length
+  const total = job.chunks.length
+  const progress = `${done} of ${total} chunks transcribed`
+
+  if (isRunning) {
+    if (total === 0) return 'Decoding audio...'
+    const retrying = job.chunks.filter(chunk => chunk.status === 'retrying').length
+    return retrying > 0 ? `${progress}, retrying ${retrying}` : progress
+  }
+  switch (job.status) {
+    case 'interrupted':
+      return `Interrupted: ${progress}`
+    case 'cancelled':
+      return `Cancelled: ${progress}`
+    case 'failed':
+      return `Failed: ${job.error ?? 'unknown error'}. ${progress}`
+    default:
+      return progress
+  }
+}
+
+export function TranscriptionJobPanel({
+  job,
+  isRunning,
+  formatTime,
+  onCancel,
+  onResume,
+  onDismiss,
+  canResume
+}: TranscriptionJobPanelProps) {
+  const done = job.chunks.filter(chunk => chunk.status === 'done').length
+  const total = job.chunks.length
+
+  return (
+    <div className="space-y-2">
+      <Progress value={total > 0 ? (done / total) * 100 : 0} />
+      {total > 1 && (
+        <div className="flex gap-0.5">
+          {job.chunks.map(chunk => (
+            <div
+              key={chunk.index}
+              className={`h-1.5 flex-1 rounded-sm ${CHUNK_COLORS[chunk.status]}`}
+              title={[
+                `Chunk ${chunk.index + 1}`,
+                `${formatTime(chunk.start)} – ${formatTime(chunk.end)}`,
+                chunk.status,
+                chunk.attempts > 1 ? `${chunk.attempts} attempts` : null,
+                chunk.error
+              ].filter(Boolean).join(' · ')}
+            />
+          ))}
+        </div>
+      )}
+      <div className="flex items-center justify-between gap-4">
+        <p className={`text-sm ${job.status === 'failed' && !isRunning ? 'text-destructive' : 'text-muted-foreground'}`}>
+          {isRunning && <Loader2 className="inline w-3 h-3 mr-2 animate-spin" />}
+          {statusLine(job, isRunning)}
+        </p>
+        <div className="flex gap-2">
+          {isRunning ? (
+            <Button variant="outline" size="sm" onClick={onCancel}>
+              <Square className="w-4 h-4 mr-2" />
+              Cancel
+            </Button>
+          ) : (
+            <>
+              <Button variant="outline" size="sm" onClick={onResume} disabled={!canResume}>
+                <Play className="w-4 h-4 mr-2" />
+                Resume
+              </Button>
+              <Button variant="ghost" size="sm" onClick={onDismiss} title="Discard this job">
+                <X className="w-4 h-4" />
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
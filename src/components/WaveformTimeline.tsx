@@ -0,0 +1,300 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react'
+import { ZoomIn, ZoomOut, Maximize2 } from 'lucide-react'
+import { Button } from './ui/button'
+import type { Subtitle } from '../lib/subtitles/types'
+import type { EnergyEnvelope } from '../lib/transcription/audio'
+import type { SpeechRegion } from '../lib/transcription/vad'
+import { MIN_CUE_DURATION } from '../lib/subtitles/edit'
+
+interface WaveformTimelineProps {
+  envelope: EnergyEnvelope | null
+  duration: number
+  currentTime: number
+  subtitles: Subtitle[]
+  speechRegions: SpeechRegion[]
+  selectedSubtitleId: string | null
+  currentSubtitleId: string | null
+  onSeek: (time: number) => void
+  onSelect: (id: string) => void
+  onTimingChange: (id: string, startTime: number, endTime: number) => void
+}
+
+type DragMode = 'start' | 'end' | 'move'
+
+interface DragState {
+  id: string
+  mode: DragMode
+  originX: number
+  startTime: number
+  endTime: number
+  moved: boolean
+}
+
+const HEIGHT = 140
+const RULER_HEIGHT = 18
+const MAX_PIXELS_PER_SECOND = 500
+
+function cssColour(variable: string) {
+  const value = getComputedStyle(document.documentElement).getPropertyValue(variable).trim()
+  return value ? `hsl(${value})` : '#888'
+}
+
+// Label spacing that keeps ruler ticks at least ~80px apart
+function tickInterval(pixelsPerSecond: number) {
+  const candidates = [0.1, 0.25, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600]
+  return candidates.find(seconds => seconds * pixelsPerSecond >= 80) ?? 1200
+}
+
+function formatTick(seconds: number) {
+  const mins = Math.floor(seconds / 60)
+  const secs = seconds % 60
+  return `${mins}:${secs < 10 ? '0' : ''}${Number.isInteger(secs) ? secs : secs.toFixed(1)}`
+}
+
+export function WaveformTimeline({
+  envelope,
+  duration,
+  currentTime,
+  subtitles,
+  speechRegions,
+  selectedSubtitleId,
+  currentSubtitleId,
+  onSeek,
+  onSelect,
+  onTimingChange
+}: WaveformTimelineProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const dragRef = useRef<DragState | null>(null)
+  const [pixelsPerSecond, setPixelsPerSecond] = useState(50)
+  const [scrollLeft, setScrollLeft] = useState(0)
+  const [viewportWidth, setViewportWidth] = useState(0)
+
+  const contentWidth = Math.max(viewportWidth, duration * pixelsPerSecond)
+  const fitPixelsPerSecond = duration > 0 && viewportWidth > 0 ? viewportWidth / duration : 1
+
+  useLayoutEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    const observer = new ResizeObserver(() => setViewportWidth(container.clientWidth))
+    observer.observe(container)
+    setViewportWidth(container.clientWidth)
+    return () => observer.disconnect()
+  }, [])
+
+  // Only the visible slice is drawn, so long recordings at high zoom stay cheap
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || viewportWidth === 0) return
+
+    const ratio = window.devicePixelRatio || 1
+    canvas.width = viewportWidth * ratio
+    canvas.height = HEIGHT * ratio
+    const context = canvas.getContext('2d')
+    if (!context) return
+
+    context.setTransform(ratio, 0, 0, ratio, 0, 0)
+    context.clearRect(0, 0, viewportWidth, HEIGHT)
+
+    const waveHeight = HEIGHT - RULER_HEIGHT
+    const middle = RULER_HEIGHT + waveHeight / 2
+
+    if (envelope) {
+      let peak = 0
+      for (const value of envelope.values) peak = Math.max(peak, value)
+      peak = peak || 1
+
+      context.fillStyle = cssColour('--muted-foreground')
+      for (let x = 0; x < viewportWidth; x++) {
+        const from = Math.floor(((scrollLeft + x) / pixelsPerSecond) / envelope.frameDuration)
+        const to = Math.max(from + 1, Math.floor(((scrollLeft + x + 1) / pixelsPerSecond) / envelope.frameDuration))
+        if (from >= envelope.values.length) break
+
+        let level = 0
+        for (let frame = from; frame < Math.min(to, envelope.values.length); frame++) {
+          level = Math.max(level, envelope.values[frame])
+        }
+        const barHeight = Math.max(1, (level / peak) * (waveHeight - 8))
+        context.fillRect(x, middle - barHeight / 2, 1, barHeight)
+      }
+    }
+
+    const interval = tickInterval(pixelsPerSecond)
+    context.fillStyle = cssColour('--muted-foreground')
+    context.font = '10px sans-serif'
+    const firstTick = Math.floor(scrollLeft / pixelsPerSecond / interval) * interval
+    for (let tick = firstTick; tick * pixelsPerSecond < scrollLeft + viewportWidth; tick += interval) {
+      const x = tick * pixelsPerSecond - scrollLeft
+      context.fillRect(x, 0, 1, 6)
+      context.fillText(formatTick(Math.round(tick * 10) / 10), x + 3, 12)
+    }
+  }, [envelope, pixelsPerSecond, scrollLeft, viewportWidth])
+
+  // Keep the playhead in view while it runs, unless the user is dragging a cue
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container || dragRef.current || viewportWidth === 0) return
+
+    const playheadX = currentTime * pixelsPerSecond
+    if (playheadX < container.scrollLeft || playheadX > container.scrollLeft + viewportWidth - 20) {
+      container.scrollLeft = Math.max(0, playheadX - viewportWidth * 0.1)
+    }
+  }, [currentTime, pixelsPerSecond, viewportWidth])
+
+  const zoomTo = (next: number) => {
+    const container = containerRef.current
+    const clamped = Math.min(MAX_PIXELS_PER_SECOND, Math.max(fitPixelsPerSecond, next))
+    setPixelsPerSecond(clamped)
+
+    // Zoom around the playhead so it stays where the user is looking
+    if (container) {
+      const offset = currentTime * pixelsPerSecond - container.scrollLeft
+      requestAnimationFrame(() => {
+        container.scrollLeft = Math.max(0, currentTime * clamped - offset)
+      })
+    }
+  }
+
+  const handleBackgroundClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    const time = (event.clientX - rect.left) / pixelsPerSecond
+    onSeek(Math.min(duration, Math.max(0, time)))
+  }
+
+  const startDrag = (event: React.PointerEvent<HTMLElement>, subtitle: Subtitle, mode: DragMode) => {
+    event.stopPropagation()
+    event.currentTarget.setPointerCapture(event.pointerId)
+    dragRef.current = {
+      id: subtitle.id,
+      mode,
+      originX: event.clientX,
+      startTime: subtitle.startTime,
+      endTime: subtitle.endTime,
+      moved: false
+    }
+  }
+
+  // Edge handles sit inside the cue, so their pointer events bubble to it too; only the element
+  // holding the capture handles the drag, otherwise each move would be applied twice
+  const handleDragMove = (event: React.PointerEvent<HTMLElement>) => {
+    const drag = dragRef.current
+    if (!drag || !event.currentTarget.hasPointerCapture(event.pointerId)) return
+
+    const delta = (event.clientX - drag.originX) / pixelsPerSecond
+    if (!drag.moved && Math.abs(event.clientX - drag.originX) < 3) return
+    drag.moved = true
+
+    if (drag.mode === 'start') {
+      const startTime = Math.min(drag.endTime - MIN_CUE_DURATION, Math.max(0, drag.startTime + delta))
+      onTimingChange(drag.id, startTime, drag.endTime)
+    } else if (drag.mode === 'end') {
+      const endTime = Math.max(drag.startTime + MIN_CUE_DURATION, Math.min(duration, drag.endTime + delta))
+      onTimingChange(drag.id, drag.startTime, endTime)
+    } else {
+      const length = drag.endTime - drag.startTime
+      const startTime = Math.min(Math.max(0, drag.startTime + delta), Math.max(0, duration - length))
+      onTimingChange(drag.id, startTime, startTime + length)
+    }
+  }
+
+  const endDrag = (event: React.PointerEvent<HTMLElement>) => {
+    const drag = dragRef.current
+    if (!drag || !event.currentTarget.hasPointerCapture(event.pointerId)) return
+
+    event.currentTarget.releasePointerCapture(event.pointerId)
+    dragRef.current = null
+    if (!drag.moved) onSelect(drag.id)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-end gap-1">
+        <Button variant="ghost" size="icon" onClick={() => zoomTo(pixelsPerSecond / 1.5)} title="Zoom out">
+          <ZoomOut className="w-4 h-4" />
+        </Button>
+        <Button variant="ghost" size="icon" onClick={() => zoomTo(pixelsPerSecond * 1.5)} title="Zoom in">
+          <ZoomIn className="w-4 h-4" />
+        </Button>
+        <Button variant="ghost" size="icon" onClick={() => zoomTo(fitPixelsPerSecond)} title="Fit to width">
+          <Maximize2 className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div
+        ref={containerRef}
+        className="relative overflow-x-auto overflow-y-hidden rounded-md border bg-muted/30"
+        style={{ height: HEIGHT + 16 }}
+        onScroll={(e) => setScrollLeft(e.currentTarget.scrollLeft)}
+      >
+        <div
+          className="relative cursor-text"
+          style={{ width: contentWidth, height: HEIGHT }}
+          onClick={handleBackgroundClick}
+        >
+          <canvas
+            ref={canvasRef}
+            className="absolute top-0 pointer-events-none"
+            style={{ left: scrollLeft, width: viewportWidth, height: HEIGHT }}
+          />
+
+          {speechRegions.map(region => (
+            <div
+              key={`${region.start}-${region.end}`}
+              className="absolute bottom-0 h-1 bg-chart-3/60 pointer-events-none"
+              style={{ left: region.start * pixelsPerSecond, width: (region.end - region.start) * pixelsPerSecond }}
+            />
+          ))}
+
+          {subtitles.map(subtitle => {
+            const isSelected = subtitle.id === selectedSubtitleId
+            const isCurrent = subtitle.id === currentSubtitleId
+
+            return (
+              <div
+                key={subtitle.id}
+                className={`absolute rounded-sm border text-xs overflow-hidden select-none cursor-grab active:cursor-grabbing ${
+                  isSelected
+                    ? 'border-primary bg-primary/30 z-10'
+                    : isCurrent
+                    ? 'border-accent bg-accent/25'
+                    : 'border-primary/40 bg-primary/15 hover:bg-primary/25'
+                }`}
+                style={{
+                  left: subtitle.startTime * pixelsPerSecond,
+                  width: Math.max(2, (subtitle.endTime - subtitle.startTime) * pixelsPerSecond),
+                  top: RULER_HEIGHT + 4,
+                  bottom: 8
+                }}
+                onClick={(e) => e.stopPropagation()}
+                onPointerDown={(e) => startDrag(e, subtitle, 'move')}
+                onPointerMove={handleDragMove}
+                onPointerUp={endDrag}
+                title={subtitle.text}
+              >
+                <div
+                  className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize bg-primary/50 hover:bg-primary"
+                  onPointerDown={(e) => startDrag(e, subtitle, 'start')}
+                  onPointerMove={handleDragMove}
+                  onPointerUp={endDrag}
+                />
+                <span className="block px-2 py-1 truncate pointer-events-none">{subtitle.text}</span>
+                <div
+                  className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize bg-primary/50 hover:bg-primary"
+                  onPointerDown={(e) => startDrag(e, subtitle, 'end')}
+                  onPointerMove={handleDragMove}
+                  onPointerUp={endDrag}
+                />
+              </div>
+            )
+          })}
+
+          <div
+            className="absolute top-0 bottom-0 w-px bg-destructive pointer-events-none z-20"
+            style={{ left: currentTime * pixelsPerSecond }}
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { updateProject } from '@/lib/projects/store'
+import type { ProjectContent } from '@/lib/projects/types'
+
+const SAVE_DELAY_MS = 1000
+
+/**
+ * Saves the open project's content to IndexedDB shortly after each change.
+ * Loading a project doesn't count as a change, and a pending save is written
+ * straight away when the project is closed or the tab goes away.
+ */
+export function useAutosave(projectId: string | null, content: ProjectContent) {
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null)
+  const pending = useRef<{ projectId: string; content: ProjectContent } | null>(null)
+  const loadedProjectId = useRef<string | null>(null)
+
+  const flush = useCallback(() => {
+    const save = pending.current
+    pending.current = null
+    if (!save) return
+
+    updateProject(save.projectId, save.content)
+      .then(() => setLastSavedAt(Date.now()))
+      .catch(error => console.warn('Unable to autosave project:', error))
+  }, [])
+
+  const { subtitles, trackMetadata, speechOptions } = content
+  useEffect(() => {
+    if (!projectId) return
+    if (loadedProjectId.current !== projectId) {
+      loadedProjectId.current = projectId
+      return
+    }
+
+    pending.current = { projectId, content: { subtitles, trackMetadata, speechOptions } }
+    const timeout = setTimeout(flush, SAVE_DELAY_MS)
+    return () => clearTimeout(timeout)
+  }, [projectId, subtitles, trackMetadata, speechOptions, flush])
+
+  useEffect(() => {
+    return () => {
+      flush()
+      loadedProjectId.current = null
+    }
+  }, [projectId, flush])
+
+  useEffect(() => {
+    window.addEventListener('pagehide', flush)
+    return () => window.removeEventListener('pagehide', flush)
+  }, [flush])
+
+  return { lastSavedAt }
+}
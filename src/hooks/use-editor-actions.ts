@@ -0,0 +1,34 @@
+import { useEffect, useLayoutEffect, useRef, useSyncExternalStore } from 'react'
+import {
+  listActions,
+  registerActions,
+  subscribeActions,
+  unregisterActions,
+  type EditorAction
+} from '@/lib/actions'
+
+/**
+ * Publishes a component's actions. They are only re-published when something
+ * the palette shows (a label, a disabled flag...) changes, not on every
+ * render; `run` always calls the handler from the latest render.
+ */
+export function useRegisterActions(source: string, actions: EditorAction[]) {
+  const latest = useRef(actions)
+  useLayoutEffect(() => {
+    latest.current = actions
+  })
+
+  const signature = JSON.stringify(actions.map(({ run: _run, ...shown }) => shown))
+  useLayoutEffect(() => {
+    registerActions(source, latest.current.map(action => ({
+      ...action,
+      run: () => latest.current.find(entry => entry.id === action.id)?.run()
+    })))
+  }, [source, signature])
+
+  useEffect(() => () => unregisterActions(source), [source])
+}
+
+export function useRegisteredActions() {
+  return useSyncExternalStore(subscribeActions, listActions)
+}
@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  DEFAULT_SHORTCUTS,
+  GLOBAL_SHORTCUTS,
+  eventToBinding,
+  isTypingTarget,
+  loadShortcutBindings,
+  saveShortcutBindings,
+  type ShortcutAction,
+  type ShortcutBindings,
+  type ShortcutHandlers
+} from '@/lib/shortcuts'
+
+// Menus, listboxes and dialogs use the arrow keys themselves
+function insideKeyboardWidget(target: EventTarget | null) {
+  return target instanceof Element && Boolean(target.closest('[role="menu"], [role="listbox"], [role="dialog"]'))
+}
+
+/**
+ * Dispatches key presses to the editor's actions using the user's bindings.
+ * Handlers are read through a ref, so callers can pass a fresh object each
+ * render without re-registering the listener.
+ */
+export function useKeyboardShortcuts(handlers: ShortcutHandlers) {
+  const [bindings, setBindings] = useState<ShortcutBindings>(loadShortcutBindings)
+  const handlersRef = useRef(handlers)
+  handlersRef.current = handlers
+
+  useEffect(() => {
+    const actionsByBinding = new Map<string, ShortcutAction>()
+    for (const [action, binding] of Object.entries(bindings)) {
+      if (binding) actionsByBinding.set(binding, action as ShortcutAction)
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented) return
+
+      const binding = eventToBinding(event)
+      const action = binding ? actionsByBinding.get(binding) : undefined
+      const handler = action ? handlersRef.current[action] : undefined
+      if (!action || !handler) return
+
+      const blocked = isTypingTarget(event.target) || insideKeyboardWidget(event.target)
+      if (blocked && !GLOBAL_SHORTCUTS.includes(action)) return
+
+      event.preventDefault()
+      handler()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [bindings])
+
+  // A key combination can only do one thing, so taking it unbinds whichever action had it
+  const rebind = useCallback((action: ShortcutAction, binding: string | null) => {
+    setBindings(prev => {
+      const next = { ...prev }
+      for (const key of Object.keys(next) as ShortcutAction[]) {
+        if (binding && next[key] === binding) next[key] = null
+      }
+      next[action] = binding
+      saveShortcutBindings(next)
+      return next
+    })
+  }, [])
+
+  const resetBindings = useCallback(() => {
+    saveShortcutBindings(DEFAULT_SHORTCUTS)
+    setBindings(DEFAULT_SHORTCUTS)
+  }, [])
+
+  return { bindings, rebind, resetBindings }
+}
@@ -0,0 +1,44 @@
+import { useEffect, useMemo, useState } from 'react'
+import { SPEECH_SAMPLE_RATE, computeEnergyEnvelope, decodeAudioFile, type EnergyEnvelope } from '@/lib/transcription/audio'
+import { detectSpeechRegions, type SpeechDetectionOptions } from '@/lib/transcription/vad'
+
+/**
+ * Decodes the audio file once and keeps its speech regions up to date with
+ * the detection settings. Re-running detection on new settings only walks
+ * the cached envelope, so it is cheap enough to do on every change. The
+ * audio is decoded at the rate transcription needs and kept in the analysis,
+ * so transcribing doesn't decode it again.
+ */
+export function useSpeechRegions(audioFile: File | null, options: SpeechDetectionOptions) {
+  const [decoded, setDecoded] = useState<{ buffer: AudioBuffer; envelope: EnergyEnvelope } | null>(null)
+  const [isAnalyzing, setIsAnalyzing] = useState(false)
+
+  useEffect(() => {
+    setDecoded(null)
+    if (!audioFile) return
+
+    let cancelled = false
+    setIsAnalyzing(true)
+    decodeAudioFile(audioFile, SPEECH_SAMPLE_RATE)
+      .then(buffer => {
+        if (!cancelled) setDecoded({ buffer, envelope: computeEnergyEnvelope(buffer) })
+      })
+      .catch(error => console.warn('Unable to analyse audio for speech regions:', error))
+      .finally(() => {
+        if (!cancelled) setIsAnalyzing(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [audioFile])
+
+  const regions = useMemo(
+    () => (decoded ? detectSpeechRegions(decoded.envelope, options) : []),
+    [decoded, options]
+  )
+
+  const analysis = useMemo(() => (decoded ? { ...decoded, regions } : undefined), [decoded, regions])
+
+  return { regions, analysis, isAnalyzing }
+}
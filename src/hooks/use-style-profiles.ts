@@ -0,0 +1,70 @@
+import { useCallback, useState } from 'react'
+import {
+  BUILT_IN_PROFILES,
+  createStyleProfileId,
+  loadCustomProfiles,
+  saveCustomProfiles,
+  sameStyleSettings,
+  type StyleProfile
+} from '@/lib/profiles'
+
+/**
+ * The built-in profiles followed by the user's own. Changes to custom
+ * profiles are written to storage straight away.
+ */
+export function useStyleProfiles() {
+  const [customProfiles, setCustomProfiles] = useState<StyleProfile[]>(loadCustomProfiles)
+
+  const update = useCallback((change: (prev: StyleProfile[]) => StyleProfile[]) => {
+    setCustomProfiles(prev => {
+      const next = change(prev)
+      saveCustomProfiles(next)
+      return next
+    })
+  }, [])
+
+  // Adds the profile, or replaces the custom profile with the same id
+  const saveProfile = useCallback((profile: StyleProfile) => {
+    update(prev => prev.some(entry => entry.id === profile.id)
+      ? prev.map(entry => entry.id === profile.id ? profile : entry)
+      : [...prev, profile])
+  }, [update])
+
+  const deleteProfile = useCallback((id: string) => {
+    update(prev => prev.filter(entry => entry.id !== id))
+  }, [update])
+
+  // Re-importing a file updates the profiles it created; an id taken by a built-in gets a new one
+  const importProfiles = useCallback((profiles: StyleProfile[]) => {
+    const imported = profiles.map(profile =>
+      BUILT_IN_PROFILES.some(entry => entry.id === profile.id) ? { ...profile, id: createStyleProfileId() } : profile
+    )
+    update(prev => [
+      ...prev.filter(entry => !imported.some(profile => profile.id === entry.id)),
+      ...imported
+    ])
+    return imported
+  }, [update])
+
+  // A profile embedded in a project file. An identical one already here is reused, so opening the
+  // same file twice adds nothing; one that shares an id but differs is added alongside, leaving
+  // the local profile as the user edited it.
+  const adoptProfile = useCallback((profile: StyleProfile) => {
+    const known = [...BUILT_IN_PROFILES, ...customProfiles]
+    const existing = known.find(entry => entry.id === profile.id && sameStyleSettings(entry, profile))
+      ?? known.find(entry => sameStyleSettings(entry, profile))
+    if (existing) return existing
+
+    const adopted = known.some(entry => entry.id === profile.id) ? { ...profile, id: createStyleProfileId() } : profile
+    update(prev => [...prev, adopted])
+    return adopted
+  }, [customProfiles, update])
+
+  return {
+    profiles: [...BUILT_IN_PROFILES, ...customProfiles],
+    saveProfile,
+    deleteProfile,
+    importProfiles,
+    adoptProfile
+  }
+}
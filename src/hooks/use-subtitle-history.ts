@@ -0,0 +1,100 @@
+import { useCallback, useState } from 'react'
+import type { Subtitle, TrackMetadata } from '@/lib/subtitles/types'
+
+export interface HistoryEntry {
+  label: string
+  subtitles: Subtitle[]
+  // Styles, headers and the like from the imported file, so undoing an import restores them too
+  trackMetadata: TrackMetadata
+  timestamp: number
+  // Consecutive edits sharing a key (e.g. typing into one cue) merge into one step
+  coalesceKey?: string
+}
+
+export interface EditOptions {
+  label: string
+  coalesceKey?: string
+  // How long after the previous edit this one may still merge into it
+  coalesceWindow?: number
+  // Replaces the track metadata in the same step; edits keep the current metadata otherwise
+  trackMetadata?: TrackMetadata
+}
+
+interface HistoryState {
+  entries: HistoryEntry[]
+  index: number
+}
+
+const MAX_ENTRIES = 200
+const COALESCE_WINDOW_MS = 1000
+
+function initialState(subtitles: Subtitle[], label: string, trackMetadata: TrackMetadata): HistoryState {
+  return { entries: [{ label, subtitles, trackMetadata, timestamp: Date.now() }], index: 0 }
+}
+
+/**
+ * Keeps every version of the subtitle track as an immutable snapshot. Cues
+ * are shared between snapshots, so a step only costs one new array plus the
+ * cues it changed. Making an edit after undoing drops the redo branch.
+ */
+export function useSubtitleHistory(initial: Subtitle[] = []) {
+  const [state, setState] = useState<HistoryState>(() => initialState(initial, 'Start', {}))
+
+  const setSubtitles = useCallback((
+    update: Subtitle[] | ((prev: Subtitle[]) => Subtitle[]),
+    { label, coalesceKey, coalesceWindow = COALESCE_WINDOW_MS, trackMetadata: newMetadata }: EditOptions
+  ) => {
+    setState(prev => {
+      const current = prev.entries[prev.index]
+      const subtitles = typeof update === 'function' ? update(current.subtitles) : update
+      const trackMetadata = newMetadata ?? current.trackMetadata
+      if (subtitles === current.subtitles && trackMetadata === current.trackMetadata) return prev
+
+      const now = Date.now()
+      const base = prev.entries.slice(0, prev.index + 1)
+      const coalesce = coalesceKey !== undefined
+        && prev.index > 0
+        && current.coalesceKey === coalesceKey
+        && now - current.timestamp < coalesceWindow
+
+      if (coalesce) {
+        base[base.length - 1] = { ...current, subtitles, trackMetadata, timestamp: now }
+        return { entries: base, index: prev.index }
+      }
+
+      const entries = [...base, { label, subtitles, trackMetadata, timestamp: now, coalesceKey }].slice(-MAX_ENTRIES)
+      return { entries, index: entries.length - 1 }
+    })
+  }, [])
+
+  // Replaces the whole history, for loading a different track
+  const resetHistory = useCallback((subtitles: Subtitle[], label = 'Start', trackMetadata: TrackMetadata = {}) => {
+    setState(initialState(subtitles, label, trackMetadata))
+  }, [])
+
+  const jumpTo = useCallback((index: number) => {
+    setState(prev => (index >= 0 && index < prev.entries.length ? { ...prev, index } : prev))
+  }, [])
+
+  const undo = useCallback(() => {
+    setState(prev => (prev.index > 0 ? { ...prev, index: prev.index - 1 } : prev))
+  }, [])
+
+  const redo = useCallback(() => {
+    setState(prev => (prev.index < prev.entries.length - 1 ? { ...prev, index: prev.index + 1 } : prev))
+  }, [])
+
+  return {
+    subtitles: state.entries[state.index].subtitles,
+    trackMetadata: state.entries[state.index].trackMetadata,
+    setSubtitles,
+    resetHistory,
+    undo,
+    redo,
+    jumpTo,
+    canUndo: state.index > 0,
+    canRedo: state.index < state.entries.length - 1,
+    entries: state.entries,
+    index: state.index
+  }
+}
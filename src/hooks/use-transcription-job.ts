@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { Subtitle } from '@/lib/subtitles/types'
+import type { SpeechAnalysis } from '@/lib/transcription/pipeline'
+import {
+  createTranscriptionJob,
+  deleteTranscriptionJob,
+  loadTranscriptionJob,
+  runTranscriptionJob,
+  type JobSettings,
+  type TranscriptionJob
+} from '@/lib/transcription/jobs'
+
+interface RunTarget {
+  audioFile: File
+  analysis?: SpeechAnalysis
+  onChunk: (subtitles: Subtitle[], first: boolean) => void
+}
+
+/**
+ * The open project's transcription job. A job left unfinished by a reload,
+ * a cancel or a failure is loaded with the project and can be resumed; a
+ * finished job is removed since there is nothing left to resume.
+ */
+export function useTranscriptionJob(projectId: string | null) {
+  const [job, setJob] = useState<TranscriptionJob | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  useEffect(() => {
+    setJob(null)
+    if (!projectId) return
+
+    let cancelled = false
+    loadTranscriptionJob(projectId)
+      .then(stored => {
+        if (!cancelled) setJob(stored)
+      })
+      .catch(error => console.error('Unable to load transcription job:', error))
+
+    // Leaving the project stops its job; it is saved as cancelled and can be resumed later
+    return () => {
+      cancelled = true
+      controllerRef.current?.abort()
+      controllerRef.current = null
+      setIsRunning(false)
+    }
+  }, [projectId])
+
+  const run = useCallback(async (next: TranscriptionJob, { audioFile, analysis, onChunk }: RunTarget) => {
+    const controller = new AbortController()
+    controllerRef.current = controller
+    setIsRunning(true)
+    setJob(next)
+
+    try {
+      const finished = await runTranscriptionJob(next, audioFile, analysis, {
+        signal: controller.signal,
+        onUpdate: updated => {
+          if (controllerRef.current === controller) setJob(updated)
+        },
+        // Cues from a job the user has since left must not land in another project
+        onChunk: (subtitles, first) => {
+          if (controllerRef.current === controller) onChunk(subtitles, first)
+        }
+      })
+      if (finished.status === 'done') {
+        await deleteTranscriptionJob(finished.projectId)
+        if (controllerRef.current === controller) setJob(null)
+      }
+      return finished
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null
+        setIsRunning(false)
+      }
+    }
+  }, [])
+
+  const start = useCallback((settings: JobSettings, target: RunTarget) => {
+    if (!projectId) return Promise.resolve(null)
+    return run(createTranscriptionJob(projectId, settings), target)
+  }, [projectId, run])
+
+  const resume = useCallback((target: RunTarget) => {
+    return job ? run(job, target) : Promise.resolve(null)
+  }, [job, run])
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort()
+  }, [])
+
+  const dismiss = useCallback(() => {
+    if (!job) return
+    setJob(null)
+    deleteTranscriptionJob(job.projectId)
+      .catch(error => console.error('Unable to delete transcription job:', error))
+  }, [job])
+
+  return { job, isRunning, start, resume, cancel, dismiss }
+}
@@ -0,0 +1,59 @@
+import type { ShortcutAction, ShortcutHandlers } from './shortcuts'
+
+export interface EditorAction {
+  id: string
+  label: string
+  group: string
+  // Extra words the palette should match, e.g. "srt" for the SubRip export
+  keywords?: string[]
+  // Rebindable shortcut that triggers this action
+  shortcut?: ShortcutAction
+  // Fixed key hint for actions handled outside the shortcut system
+  keys?: string
+  disabled?: boolean
+  run: () => void
+}
+
+/**
+ * Central list of everything the editor can do. Each part of the UI
+ * registers its actions under its own source name and replaces them as its
+ * state changes; the command palette and the keyboard shortcuts both read
+ * from here, so an action only has to be written once.
+ */
+const sources = new Map<string, EditorAction[]>()
+const listeners = new Set<() => void>()
+let snapshot: EditorAction[] = []
+
+function publish() {
+  snapshot = Array.from(sources.values()).flat()
+  listeners.forEach(listener => listener())
+}
+
+export function registerActions(source: string, actions: EditorAction[]) {
+  sources.set(source, actions)
+  publish()
+}
+
+export function unregisterActions(source: string) {
+  if (sources.delete(source)) publish()
+}
+
+export function listActions() {
+  return snapshot
+}
+
+export function subscribeActions(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// The shortcut handlers for a set of actions; disabled actions are left unbound
+export function shortcutHandlers(actions: EditorAction[]): ShortcutHandlers {
+  const handlers: ShortcutHandlers = {}
+  for (const action of actions) {
+    if (action.shortcut && !action.disabled) handlers[action.shortcut] = action.run
+  }
+  return handlers
+}
@@ -0,0 +1,76 @@
+export interface Language {
+  // ISO 639-1 code, as transcription providers and subtitle formats expect
+  code: string
+  name: string
+}
+
+// Stored as the project language until transcription reports what it heard
+export const AUTO_DETECT_LANGUAGE = 'auto'
+
+export const LANGUAGES: Language[] = [
+  { code: 'af', name: 'Afrikaans' },
+  { code: 'ar', name: 'Arabic' },
+  { code: 'bg', name: 'Bulgarian' },
+  { code: 'ca', name: 'Catalan' },
+  { code: 'cs', name: 'Czech' },
+  { code: 'cy', name: 'Welsh' },
+  { code: 'da', name: 'Danish' },
+  { code: 'de', name: 'German' },
+  { code: 'el', name: 'Greek' },
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'et', name: 'Estonian' },
+  { code: 'fa', name: 'Persian' },
+  { code: 'fi', name: 'Finnish' },
+  { code: 'fr', name: 'French' },
+  { code: 'he', name: 'Hebrew' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'hr', name: 'Croatian' },
+  { code: 'hu', name: 'Hungarian' },
+  { code: 'id', name: 'Indonesian' },
+  { code: 'is', name: 'Icelandic' },
+  { code: 'it', name: 'Italian' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ko', name: 'Korean' },
+  { code: 'lt', name: 'Lithuanian' },
+  { code: 'lv', name: 'Latvian' },
+  { code: 'ms', name: 'Malay' },
+  { code: 'nl', name: 'Dutch' },
+  { code: 'no', name: 'Norwegian' },
+  { code: 'pl', name: 'Polish' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'ro', name: 'Romanian' },
+  { code: 'ru', name: 'Russian' },
+  { code: 'sk', name: 'Slovak' },
+  { code: 'sl', name: 'Slovenian' },
+  { code: 'sr', name: 'Serbian' },
+  { code: 'sv', name: 'Swedish' },
+  { code: 'sw', name: 'Swahili' },
+  { code: 'ta', name: 'Tamil' },
+  { code: 'th', name: 'Thai' },
+  { code: 'tl', name: 'Tagalog' },
+  { code: 'tr', name: 'Turkish' },
+  { code: 'uk', name: 'Ukrainian' },
+  { code: 'ur', name: 'Urdu' },
+  { code: 'vi', name: 'Vietnamese' },
+  { code: 'zh', name: 'Chinese' }
+]
+
+export function languageName(code: string) {
+  if (code === AUTO_DETECT_LANGUAGE) return 'Auto-detect'
+  return LANGUAGES.find(language => language.code === code)?.name ?? code
+}
+
+/**
+ * Turns a language as a provider reports it into a code from the list.
+ * Whisper-style responses give the English name ("spanish"), others a code
+ * that may carry a region ("pt-BR"). Returns null when it isn't recognised.
+ */
+export function normaliseLanguage(value: string | undefined) {
+  const input = value?.trim().toLowerCase()
+  if (!input) return null
+
+  const primary = input.split(/[-_]/)[0]
+  const match = LANGUAGES.find(language => language.code === primary || language.name.toLowerCase() === input)
+  return match?.code ?? null
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import { BUILT_IN_PROFILES, normaliseStyleProfile, parseStyleProfiles, serializeStyleProfiles } from './profiles'
+
+const defaults = BUILT_IN_PROFILES[0]
+
+describe('style profiles', () => {
+  it('round-trips custom profiles through JSON', () => {
+    const [profile] = parseStyleProfiles(serializeStyleProfiles([{ ...defaults, id: 'mine', name: 'Mine', builtIn: false }]))
+    const { builtIn: _builtIn, ...expected } = defaults
+
+    expect(profile).toEqual({ ...expected, id: 'mine', name: 'Mine' })
+  })
+
+  it('requires at least one line of at least one character', () => {
+    const profile = normaliseStyleProfile({ name: 'Broken', maxLines: 0, maxCharsPerLine: 0 })
+    expect(profile).toMatchObject({ maxLines: defaults.maxLines, maxCharsPerLine: defaults.maxCharsPerLine })
+  })
+
+  it('rounds fractional counts and replaces invalid limits', () => {
+    const profile = normaliseStyleProfile({ name: 'Loose', maxLines: 2.6, maxCharsPerLine: 37.2, minGapFrames: 1.5, maxCps: -3 })
+    expect(profile).toMatchObject({ maxLines: 3, maxCharsPerLine: 37, minGapFrames: 2, maxCps: defaults.maxCps })
+  })
+
+  it('skips entries without a name', () => {
+    expect(normaliseStyleProfile({ maxLines: 2 })).toBeNull()
+    expect(normaliseStyleProfile('netflix')).toBeNull()
+  })
+})
@@ -0,0 +1,194 @@
+import type { QcLimits } from './subtitles/qc'
+import type { CueGroupingOptions } from './transcription/cues'
+import type { LineBreakOptions } from './subtitles/linebreak'
+
+/**
+ * A client's delivery rules. Quality checks, cue grouping during
+ * transcription and export all read their limits from the project's profile.
+ */
+export interface StyleProfile {
+  id: string
+  name: string
+  // Built-in profiles can be copied but not changed
+  builtIn?: boolean
+  maxCps: number
+  maxCharsPerLine: number
+  maxLines: number
+  // Seconds
+  minDuration: number
+  maxDuration: number
+  // Shortest pause between cues, counted in frames at `frameRate`
+  minGapFrames: number
+  frameRate: number
+  // Lower-case markup tag names cues may use, e.g. 'i' for italics
+  allowedTags: string[]
+}
+
+export const BUILT_IN_PROFILES: StyleProfile[] = [
+  {
+    id: 'netflix',
+    name: 'Netflix (English)',
+    builtIn: true,
+    maxCps: 20,
+    maxCharsPerLine: 42,
+    maxLines: 2,
+    minDuration: 5 / 6,
+    maxDuration: 7,
+    minGapFrames: 2,
+    frameRate: 24000 / 1001,
+    allowedTags: ['i']
+  },
+  {
+    id: 'bbc',
+    name: 'BBC',
+    builtIn: true,
+    maxCps: 15,
+    maxCharsPerLine: 37,
+    maxLines: 2,
+    minDuration: 1,
+    maxDuration: 8,
+    minGapFrames: 1,
+    frameRate: 25,
+    allowedTags: ['i', 'font', 'c']
+  },
+  {
+    id: 'youtube',
+    name: 'YouTube',
+    builtIn: true,
+    maxCps: 25,
+    maxCharsPerLine: 42,
+    maxLines: 2,
+    minDuration: 0.7,
+    maxDuration: 10,
+    minGapFrames: 0,
+    frameRate: 30,
+    allowedTags: ['i', 'b', 'u']
+  }
+]
+
+export const DEFAULT_STYLE_PROFILE_ID = 'netflix'
+
+export const FRAME_RATES = [24000 / 1001, 24, 25, 30000 / 1001, 30, 50, 60000 / 1001, 60]
+
+export function formatFrameRate(rate: number) {
+  return Number(rate.toFixed(3)).toString()
+}
+
+export function createStyleProfileId() {
+  return `profile-${crypto.randomUUID()}`
+}
+
+// Whether two profiles have the same name and limits, whatever their ids
+export function sameStyleSettings(a: StyleProfile, b: StyleProfile) {
+  const settings = ({ id: _id, builtIn: _builtIn, ...rest }: StyleProfile) =>
+    JSON.stringify(rest, Object.keys(rest).sort())
+  return settings(a) === settings(b)
+}
+
+// Falls back to the default when the project's profile has since been deleted
+export function findStyleProfile(profiles: StyleProfile[], id: string | undefined) {
+  return profiles.find(profile => profile.id === id)
+    ?? BUILT_IN_PROFILES.find(profile => profile.id === DEFAULT_STYLE_PROFILE_ID)!
+}
+
+export function profileQcLimits(profile: StyleProfile): QcLimits {
+  return {
+    maxCps: profile.maxCps,
+    maxCharsPerLine: profile.maxCharsPerLine,
+    maxLines: profile.maxLines,
+    minDuration: profile.minDuration,
+    maxDuration: profile.maxDuration,
+    minGap: profile.minGapFrames / profile.frameRate,
+    allowedTags: profile.allowedTags
+  }
+}
+
+export function profileCueGrouping(profile: StyleProfile): Partial<CueGroupingOptions> {
+  return {
+    maxChars: profile.maxCharsPerLine * profile.maxLines,
+    maxDuration: profile.maxDuration,
+    minDuration: profile.minDuration
+  }
+}
+
+export function profileLineBreaks(profile: StyleProfile): LineBreakOptions {
+  return { maxCharsPerLine: profile.maxCharsPerLine, maxLines: profile.maxLines }
+}
+
+const STORAGE_KEY = 'audio-subtitle-editor:style-profiles'
+
+// Custom profiles are kept per browser, like shortcut bindings, and shared by every project
+export function loadCustomProfiles(): StyleProfile[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]')
+    return Array.isArray(stored) ? stored.map(normaliseStyleProfile).filter(profile => profile !== null) : []
+  } catch {
+    return []
+  }
+}
+
+export function saveCustomProfiles(profiles: StyleProfile[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles))
+}
+
+const nonNegative = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback
+
+// Counts such as lines or frames; fractions are rounded since imports skip the dialog's checks
+const wholeNumber = (value: unknown, min: number, fallback: number) => {
+  const rounded = typeof value === 'number' ? Math.round(value) : NaN
+  return Number.isFinite(rounded) && rounded >= min ? rounded : fallback
+}
+
+// Fills in missing or invalid limits from the default profile; null when the entry has no name
+export function normaliseStyleProfile(raw: unknown): StyleProfile | null {
+  if (!raw || typeof raw !== 'object') return null
+  const value = raw as Partial<StyleProfile>
+  if (typeof value.name !== 'string' || !value.name.trim()) return null
+
+  const defaults = findStyleProfile(BUILT_IN_PROFILES, DEFAULT_STYLE_PROFILE_ID)
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : createStyleProfileId(),
+    name: value.name.trim(),
+    maxCps: nonNegative(value.maxCps, defaults.maxCps),
+    maxCharsPerLine: wholeNumber(value.maxCharsPerLine, 1, defaults.maxCharsPerLine),
+    maxLines: wholeNumber(value.maxLines, 1, defaults.maxLines),
+    minDuration: nonNegative(value.minDuration, defaults.minDuration),
+    maxDuration: nonNegative(value.maxDuration, defaults.maxDuration),
+    minGapFrames: wholeNumber(value.minGapFrames, 0, defaults.minGapFrames),
+    frameRate: nonNegative(value.frameRate, 0) || defaults.frameRate,
+    allowedTags: Array.isArray(value.allowedTags)
+      ? value.allowedTags.filter(tag => typeof tag === 'string').map(tag => tag.toLowerCase())
+      : defaults.allowedTags
+  }
+}
+
+export function serializeStyleProfiles(profiles: StyleProfile[]) {
+  // Exported profiles are always custom once imported, so the flag isn't written
+  const exported = profiles.map(({ builtIn: _builtIn, ...profile }) => profile)
+  return JSON.stringify({ format: 'style-profiles', version: 1, profiles: exported }, null, 2)
+}
+
+/**
+ * Reads profiles exported by `serializeStyleProfiles`, or a bare profile or
+ * array of profiles written by hand. Missing limits take the default
+ * profile's values; imports never become built-in.
+ */
+export function parseStyleProfiles(text: string): StyleProfile[] {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+
+  const entries = Array.isArray(raw)
+    ? raw
+    : raw && typeof raw === 'object' && Array.isArray((raw as { profiles?: unknown }).profiles)
+    ? (raw as { profiles: unknown[] }).profiles
+    : [raw]
+
+  const profiles = entries.map(normaliseStyleProfile).filter(profile => profile !== null)
+  if (profiles.length === 0) throw new Error('The file contains no style profiles')
+  return profiles
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { PROJECT_FILE_VERSION, migrateProjectFile, parseProjectFile, serializeProjectFile, type ProjectFile } from './file'
+import type { Project } from './types'
+
+const project: Project = {
+  id: 'project-1',
+  name: 'Interview',
+  audio: null,
+  subtitles: [{ id: 'a', startTime: 1, endTime: 2, text: 'Hello' }],
+  trackMetadata: {},
+  speechOptions: { threshold: -40, minSilence: 0.35, padding: 0.1, minSpeech: 0.15 },
+  speakers: [],
+  markers: [],
+  language: 'de',
+  styleProfileId: 'bbc',
+  status: 'review',
+  createdAt: 1,
+  modifiedAt: 2
+}
+
+// A file as version 1 wrote it: no style profile, and by default the placeholder language
+function versionOneFile(subtitles: unknown[] = project.subtitles, language = 'en'): string {
+  const { id: _id, styleProfileId: _styleProfileId, ...rest } = project
+  return JSON.stringify({
+    format: 'subproj',
+    version: 1,
+    savedAt: '2025-01-01T00:00:00.000Z',
+    project: { ...rest, language, subtitles }
+  })
+}
+
+describe('project files', () => {
+  it('round-trips a project', async () => {
+    const opened = await parseProjectFile(await serializeProjectFile(project))
+    const { id: _id, ...expected } = project
+
+    expect(opened.project).toEqual(expected)
+    expect(opened.skippedCues).toBe(0)
+  })
+
+  it('migrates version 1 files to auto-detected language and the default profile', () => {
+    const migrated = migrateProjectFile(JSON.parse(versionOneFile()) as ProjectFile)
+
+    expect(migrated.version).toBe(PROJECT_FILE_VERSION)
+    expect(migrated.project.language).toBe('auto')
+    expect(migrated.project.styleProfileId).toBe('netflix')
+    expect(migrated.project.subtitles).toEqual(project.subtitles)
+  })
+
+  it('keeps a language chosen in a version 1 file', () => {
+    const migrated = migrateProjectFile(JSON.parse(versionOneFile(project.subtitles, 'de')) as ProjectFile)
+    expect(migrated.project.language).toBe('de')
+  })
+
+  it('opens version 1 files', async () => {
+    const opened = await parseProjectFile(versionOneFile())
+    expect(opened.project).toMatchObject({ name: 'Interview', language: 'auto', styleProfileId: 'netflix', status: 'review' })
+  })
+
+  it('drops cues without valid timing and normalises the rest', async () => {
+    const opened = await parseProjectFile(versionOneFile([
+      { id: 'a', startTime: 1, endTime: 2, text: 'Kept' },
+      { id: 'b', startTime: '3', endTime: 4, text: 'String time' },
+      { id: 'c', startTime: 5, endTime: 4, text: 'Backwards' },
+      null,
+      { id: 'a', startTime: 6, endTime: 7 },
+      { startTime: 8, endTime: 9, text: 42, style: 7 }
+    ]))
+    const cues = opened.project.subtitles
+
+    expect(opened.skippedCues).toBe(3)
+    expect(cues.map(cue => cue.text)).toEqual(['Kept', '', '42'])
+    expect(new Set(cues.map(cue => cue.id)).size).toBe(3)
+    expect(cues[2].style).toBeUndefined()
+  })
+
+  it('refuses files from a newer version and files that are not projects', async () => {
+    await expect(parseProjectFile(JSON.stringify({ format: 'subproj', version: PROJECT_FILE_VERSION + 1, project: {} })))
+      .rejects.toThrow('newer version')
+    await expect(parseProjectFile('{"format":"other"}')).rejects.toThrow('not a subtitle project')
+    await expect(parseProjectFile('not json')).rejects.toThrow('not valid JSON')
+  })
+})
@@ -0,0 +1,177 @@
+import { DEFAULT_SPEECH_DETECTION } from '../transcription/vad'
+import type { Subtitle } from '../subtitles/types'
+import { createSubtitleId } from '../subtitles/ids'
+import type { Project } from './types'
+import { DEFAULT_STYLE_PROFILE_ID, normaliseStyleProfile, type StyleProfile } from '../profiles'
+import { AUTO_DETECT_LANGUAGE } from '../languages'
+
+export const PROJECT_FILE_EXTENSION = 'subproj'
+export const PROJECT_FILE_MIME_TYPE = 'application/json'
+
+// Bump when the file layout changes, and add a migration from the previous version
+export const PROJECT_FILE_VERSION = 2
+
+/**
+ * A project saved to disk. Everything the editor knows about the project is
+ * kept, so moving a project between machines loses nothing; the audio is
+ * embedded only when asked for because it dwarfs the rest of the file.
+ */
+export interface ProjectFile {
+  format: 'subproj'
+  version: number
+  savedAt: string
+  project: Omit<Project, 'id'>
+  // Audio as a data: URL
+  embeddedAudio?: string
+  // The project's profile when it is a custom one, which the machine opening the file may not have
+  styleProfile?: StyleProfile
+}
+
+export interface OpenedProjectFile {
+  project: ProjectFile['project']
+  audio: File | null
+  styleProfile: StyleProfile | null
+  // Cues left out because they had no usable timing
+  skippedCues: number
+}
+
+type Migration = (file: ProjectFile) => ProjectFile
+
+/**
+ * Upgrades a file written by an older build. Entry `n` turns a version `n`
+ * file into version `n + 1`; they run in order until the file is current.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // Version 1 files written before the language picker all say 'en', the old placeholder, so that
+  // (or no language) becomes auto-detect; anything else was chosen in the picker and is kept
+  1: file => ({
+    ...file,
+    version: 2,
+    project: {
+      ...file.project,
+      language: !file.project.language || file.project.language === 'en' ? AUTO_DETECT_LANGUAGE : file.project.language,
+      styleProfileId: file.project.styleProfileId ?? DEFAULT_STYLE_PROFILE_ID
+    }
+  })
+}
+
+function readAsDataUrl(blob: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = reject
+    reader.readAsDataURL(blob)
+  })
+}
+
+export async function serializeProjectFile(project: Project, audio?: File | null, styleProfile?: StyleProfile) {
+  const { id: _id, ...rest } = project
+  const file: ProjectFile = {
+    format: 'subproj',
+    version: PROJECT_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    project: rest
+  }
+  if (audio) file.embeddedAudio = await readAsDataUrl(audio)
+  if (styleProfile && !styleProfile.builtIn) {
+    const { builtIn: _builtIn, ...custom } = styleProfile
+    file.styleProfile = custom
+  }
+
+  return JSON.stringify(file, null, 2)
+}
+
+const isTime = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0
+
+// Checks a cue read from a file; optional fields of the wrong type are dropped rather than trusted
+function normaliseCue(raw: unknown): Subtitle | null {
+  if (!raw || typeof raw !== 'object') return null
+  const value = raw as Partial<Record<keyof Subtitle, unknown>>
+  if (!isTime(value.startTime) || !isTime(value.endTime) || value.endTime < value.startTime) return null
+
+  const cue: Subtitle = {
+    id: typeof value.id === 'string' && value.id ? value.id : createSubtitleId(),
+    startTime: value.startTime,
+    endTime: value.endTime,
+    text: typeof value.text === 'string' ? value.text : value.text == null ? '' : String(value.text)
+  }
+  if (typeof value.identifier === 'string') cue.identifier = value.identifier
+  if (typeof value.style === 'string') cue.style = value.style
+  if (typeof value.speaker === 'string') cue.speaker = value.speaker
+  if (value.settings && typeof value.settings === 'object') cue.settings = value.settings as Subtitle['settings']
+  if (value.ass && typeof value.ass === 'object') cue.ass = value.ass as Subtitle['ass']
+  return cue
+}
+
+export function migrateProjectFile(file: ProjectFile): ProjectFile {
+  let current = file
+  while (current.version < PROJECT_FILE_VERSION) {
+    const migrate = MIGRATIONS[current.version]
+    if (!migrate) throw new Error(`No migration from project file version ${current.version}`)
+    current = migrate(current)
+  }
+  return current
+}
+
+/**
+ * Reads a .subproj file, upgrading it to the current version. Fields added
+ * since the file was written take their defaults; files from a newer build
+ * are refused rather than half-read.
+ */
+export async function parseProjectFile(text: string): Promise<OpenedProjectFile> {
+  let raw: ProjectFile
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+
+  if (raw?.format !== 'subproj' || typeof raw.version !== 'number' || !raw.project) {
+    throw new Error('The file is not a subtitle project')
+  }
+  if (raw.version > PROJECT_FILE_VERSION) {
+    throw new Error(`The project was saved by a newer version of the editor (file version ${raw.version})`)
+  }
+
+  const { project, embeddedAudio, styleProfile } = migrateProjectFile(raw)
+  if (!Array.isArray(project.subtitles)) throw new Error('The project has no cue list')
+
+  const cues = (project.subtitles as unknown[]).map(normaliseCue)
+  const subtitles = cues.filter(cue => cue !== null)
+  // Ids must be unique for selection and history to work
+  const seen = new Set<string>()
+  for (const cue of subtitles) {
+    if (seen.has(cue.id)) cue.id = createSubtitleId()
+    seen.add(cue.id)
+  }
+
+  const now = Date.now()
+  const normalised: ProjectFile['project'] = {
+    ...project,
+    name: project.name || 'Untitled project',
+    subtitles,
+    trackMetadata: project.trackMetadata ?? {},
+    speechOptions: { ...DEFAULT_SPEECH_DETECTION, ...project.speechOptions },
+    speakers: project.speakers ?? [],
+    markers: project.markers ?? [],
+    language: project.language ?? 'en',
+    styleProfileId: project.styleProfileId ?? DEFAULT_STYLE_PROFILE_ID,
+    status: project.status ?? 'draft',
+    createdAt: project.createdAt ?? now,
+    modifiedAt: project.modifiedAt ?? now,
+    audio: project.audio ?? null
+  }
+
+  let audio: File | null = null
+  if (embeddedAudio && normalised.audio) {
+    const blob = await (await fetch(embeddedAudio)).blob()
+    audio = new File([blob], normalised.audio.name, { type: normalised.audio.type || blob.type })
+  }
+
+  return {
+    project: normalised,
+    audio,
+    styleProfile: normaliseStyleProfile(styleProfile),
+    skippedCues: cues.length - subtitles.length
+  }
+}
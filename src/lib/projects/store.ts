@@ -0,0 +1,147 @@
+import {
+  AUDIO_STORE,
+  AUTOSAVE_STORE,
+  JOBS_STORE,
+  PROJECTS_STORE,
+  withStore,
+  withTransaction
+} from '../storage/db'
+import { DEFAULT_SPEECH_DETECTION } from '../transcription/vad'
+import { DEFAULT_STYLE_PROFILE_ID } from '../profiles'
+import type { Project } from './types'
+
+const LAST_PROJECT_KEY = 'lastProjectId'
+
+export function createProjectId() {
+  return `project-${crypto.randomUUID()}`
+}
+
+// Records written by older versions may lack fields added since
+function withDefaults(project: Project): Project {
+  return {
+    ...project,
+    trackMetadata: project.trackMetadata ?? {},
+    speechOptions: { ...DEFAULT_SPEECH_DETECTION, ...project.speechOptions },
+    speakers: project.speakers ?? [],
+    markers: project.markers ?? [],
+    language: project.language ?? 'en',
+    styleProfileId: project.styleProfileId ?? DEFAULT_STYLE_PROFILE_ID,
+    status: project.status ?? 'draft'
+  }
+}
+
+export async function listProjects() {
+  const projects: Project[] = await withStore(PROJECTS_STORE, 'readonly', store => store.getAll())
+  return projects.map(withDefaults)
+}
+
+export async function getProject(id: string) {
+  const project: Project | undefined = await withStore(PROJECTS_STORE, 'readonly', store => store.get(id))
+  return project ? withDefaults(project) : null
+}
+
+/**
+ * Creates and stores a project. The audio file, if any, is written in the
+ * same transaction so a project never points at audio that isn't there.
+ */
+export async function createProject(
+  name: string,
+  { audio = null, ...content }: Partial<Omit<Project, 'id' | 'name' | 'audio'>> & { audio?: File | null } = {}
+) {
+  const now = Date.now()
+  const project: Project = {
+    id: createProjectId(),
+    name,
+    audio: audio ? { name: audio.name, type: audio.type, size: audio.size } : null,
+    subtitles: [],
+    trackMetadata: {},
+    speechOptions: DEFAULT_SPEECH_DETECTION,
+    speakers: [],
+    markers: [],
+    language: 'en',
+    styleProfileId: DEFAULT_STYLE_PROFILE_ID,
+    status: 'draft',
+    createdAt: now,
+    modifiedAt: now,
+    ...content
+  }
+
+  await withTransaction([PROJECTS_STORE, AUDIO_STORE], 'readwrite', transaction => {
+    transaction.objectStore(PROJECTS_STORE).put(project)
+    if (audio) transaction.objectStore(AUDIO_STORE).put(audio, project.id)
+  })
+  return project
+}
+
+// Merges changes into the stored project in a single transaction and bumps its modified date
+export async function updateProject(id: string, changes: Partial<Omit<Project, 'id' | 'createdAt'>>) {
+  let updated: Project | null = null
+  await withTransaction([PROJECTS_STORE], 'readwrite', transaction => {
+    const store = transaction.objectStore(PROJECTS_STORE)
+    const request = store.get(id)
+    request.onsuccess = () => {
+      if (!request.result) return
+      updated = { ...request.result, ...changes, modifiedAt: Date.now() }
+      store.put(updated)
+    }
+  })
+  return updated as Project | null
+}
+
+export async function setProjectAudio(id: string, file: File) {
+  await withTransaction([AUDIO_STORE], 'readwrite', transaction => {
+    transaction.objectStore(AUDIO_STORE).put(file, id)
+  })
+  return updateProject(id, { audio: { name: file.name, type: file.type, size: file.size } })
+}
+
+export async function loadProjectAudio(project: Project) {
+  if (!project.audio) return null
+  const blob: Blob | undefined = await withStore(AUDIO_STORE, 'readonly', store => store.get(project.id))
+  return blob ? new File([blob], project.audio.name, { type: project.audio.type }) : null
+}
+
+export async function duplicateProject(id: string) {
+  const source = await getProject(id)
+  if (!source) return null
+
+  const now = Date.now()
+  const copy: Project = { ...source, id: createProjectId(), name: `${source.name} (copy)`, createdAt: now, modifiedAt: now }
+  const audio: Blob | undefined = source.audio
+    ? await withStore(AUDIO_STORE, 'readonly', store => store.get(id))
+    : undefined
+
+  await withTransaction([PROJECTS_STORE, AUDIO_STORE], 'readwrite', transaction => {
+    transaction.objectStore(PROJECTS_STORE).put(copy)
+    if (audio) transaction.objectStore(AUDIO_STORE).put(audio, copy.id)
+  })
+  return copy
+}
+
+export async function deleteProject(id: string) {
+  await withTransaction([PROJECTS_STORE, AUDIO_STORE, JOBS_STORE, AUTOSAVE_STORE], 'readwrite', transaction => {
+    transaction.objectStore(PROJECTS_STORE).delete(id)
+    transaction.objectStore(AUDIO_STORE).delete(id)
+    transaction.objectStore(JOBS_STORE).delete(id)
+
+    const autosave = transaction.objectStore(AUTOSAVE_STORE)
+    const last = autosave.get(LAST_PROJECT_KEY)
+    last.onsuccess = () => {
+      if (last.result === id) autosave.delete(LAST_PROJECT_KEY)
+    }
+  })
+}
+
+// The project open when the app was last used, offered for restore on the next visit
+export async function getLastProjectId() {
+  const id: string | undefined = await withStore(AUTOSAVE_STORE, 'readonly', store => store.get(LAST_PROJECT_KEY))
+  return id ?? null
+}
+
+export async function setLastProjectId(id: string | null) {
+  await withTransaction([AUTOSAVE_STORE], 'readwrite', transaction => {
+    const store = transaction.objectStore(AUTOSAVE_STORE)
+    if (id) store.put(id, LAST_PROJECT_KEY)
+    else store.delete(LAST_PROJECT_KEY)
+  })
+}
@@ -0,0 +1,52 @@
+import type { Subtitle, TrackMetadata } from '../subtitles/types'
+import type { SpeechDetectionOptions } from '../transcription/vad'
+
+export type ProjectStatus = 'draft' | 'in-progress' | 'review' | 'done'
+
+export const PROJECT_STATUSES: { value: ProjectStatus; label: string }[] = [
+  { value: 'draft', label: 'Draft' },
+  { value: 'in-progress', label: 'In progress' },
+  { value: 'review', label: 'In review' },
+  { value: 'done', label: 'Done' }
+]
+
+// Describes the project's audio; the blob itself lives in its own store
+export interface ProjectAudio {
+  name: string
+  type: string
+  size: number
+}
+
+export interface Speaker {
+  id: string
+  name: string
+  colour?: string
+}
+
+// A named point on the timeline, e.g. a scene change or a note for review
+export interface Marker {
+  id: string
+  time: number
+  label: string
+}
+
+// The parts of a project the editor changes while it is open
+export interface ProjectContent {
+  subtitles: Subtitle[]
+  trackMetadata: TrackMetadata
+  speechOptions: SpeechDetectionOptions
+}
+
+export interface Project extends ProjectContent {
+  id: string
+  name: string
+  audio: ProjectAudio | null
+  speakers: Speaker[]
+  markers: Marker[]
+  language: string
+  // Id of the style profile the project is checked and exported against
+  styleProfileId: string
+  status: ProjectStatus
+  createdAt: number
+  modifiedAt: number
+}
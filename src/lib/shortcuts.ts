@@ -0,0 +1,131 @@
+export type ShortcutAction =
+  | 'playPause'
+  | 'seekBackFrame'
+  | 'seekForwardFrame'
+  | 'seekBack1s'
+  | 'seekForward1s'
+  | 'seekBack10s'
+  | 'seekForward10s'
+  | 'setStart'
+  | 'setEnd'
+  | 'previousCue'
+  | 'nextCue'
+  | 'split'
+  | 'mergeNext'
+  | 'mergePrevious'
+  | 'breakLines'
+  | 'nudgeEarlier'
+  | 'nudgeLater'
+  | 'insertCue'
+  | 'deleteCue'
+  | 'showShortcuts'
+  | 'commandPalette'
+
+export type ShortcutBindings = Record<ShortcutAction, string | null>
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>
+
+export const SHORTCUT_ACTIONS: { action: ShortcutAction; label: string; group: string }[] = [
+  { action: 'playPause', label: 'Play / pause', group: 'Playback' },
+  { action: 'seekBackFrame', label: 'Back one frame', group: 'Playback' },
+  { action: 'seekForwardFrame', label: 'Forward one frame', group: 'Playback' },
+  { action: 'seekBack1s', label: 'Back 1 second', group: 'Playback' },
+  { action: 'seekForward1s', label: 'Forward 1 second', group: 'Playback' },
+  { action: 'seekBack10s', label: 'Back 10 seconds', group: 'Playback' },
+  { action: 'seekForward10s', label: 'Forward 10 seconds', group: 'Playback' },
+  { action: 'setStart', label: 'Set cue start at playhead', group: 'Timing' },
+  { action: 'setEnd', label: 'Set cue end at playhead', group: 'Timing' },
+  { action: 'nudgeEarlier', label: 'Nudge cue 100 ms earlier', group: 'Timing' },
+  { action: 'nudgeLater', label: 'Nudge cue 100 ms later', group: 'Timing' },
+  { action: 'previousCue', label: 'Previous cue', group: 'Cues' },
+  { action: 'nextCue', label: 'Next cue', group: 'Cues' },
+  { action: 'split', label: 'Split cue at playhead', group: 'Cues' },
+  { action: 'mergeNext', label: 'Merge with next cue', group: 'Cues' },
+  { action: 'mergePrevious', label: 'Merge with previous cue', group: 'Cues' },
+  { action: 'breakLines', label: 'Break cue into lines', group: 'Cues' },
+  { action: 'insertCue', label: 'Insert cue at playhead', group: 'Cues' },
+  { action: 'deleteCue', label: 'Delete cue', group: 'Cues' },
+  { action: 'showShortcuts', label: 'Show keyboard shortcuts', group: 'Help' },
+  { action: 'commandPalette', label: 'Open command palette', group: 'Help' }
+]
+
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  playPause: 'Space',
+  seekBackFrame: ',',
+  seekForwardFrame: '.',
+  seekBack1s: 'ArrowLeft',
+  seekForward1s: 'ArrowRight',
+  seekBack10s: 'Shift+ArrowLeft',
+  seekForward10s: 'Shift+ArrowRight',
+  setStart: '[',
+  setEnd: ']',
+  nudgeEarlier: 'Alt+ArrowLeft',
+  nudgeLater: 'Alt+ArrowRight',
+  previousCue: 'ArrowUp',
+  nextCue: 'ArrowDown',
+  split: 'S',
+  mergeNext: 'M',
+  mergePrevious: 'Shift+M',
+  breakLines: 'B',
+  insertCue: 'N',
+  deleteCue: 'Delete',
+  showShortcuts: '?',
+  commandPalette: 'Ctrl+K'
+}
+
+// Shortcuts that still work while typing in a text field
+export const GLOBAL_SHORTCUTS: ShortcutAction[] = ['commandPalette']
+
+const MODIFIER_KEYS = ['Control', 'Alt', 'Shift', 'Meta']
+
+/**
+ * Describes a key press as a binding string such as `Shift+ArrowLeft` or
+ * `Ctrl+K`. Shift is left out for punctuation, where it is already part of
+ * the character (`?` rather than `Shift+/`). Returns null for a bare
+ * modifier key.
+ */
+export function eventToBinding(event: KeyboardEvent) {
+  if (MODIFIER_KEYS.includes(event.key)) return null
+
+  let key = event.key === ' ' ? 'Space' : event.key
+  const isCharacter = key.length === 1
+  if (isCharacter) key = key.toUpperCase()
+
+  const parts: string[] = []
+  if (event.ctrlKey || event.metaKey) parts.push('Ctrl')
+  if (event.altKey) parts.push('Alt')
+  if (event.shiftKey && (!isCharacter || /[A-Z]/.test(key))) parts.push('Shift')
+  parts.push(key)
+  return parts.join('+')
+}
+
+export function formatBinding(binding: string | null) {
+  if (!binding) return 'Unassigned'
+  return binding
+    .replace('ArrowLeft', '←')
+    .replace('ArrowRight', '→')
+    .replace('ArrowUp', '↑')
+    .replace('ArrowDown', '↓')
+}
+
+// Keys typed into a text field belong to the field, not the shortcut system
+export function isTypingTarget(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
+const STORAGE_KEY = 'audio-subtitle-editor:shortcuts'
+
+// Custom bindings are stored per browser; actions added since fall back to their defaults
+export function loadShortcutBindings(): ShortcutBindings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}')
+    return { ...DEFAULT_SHORTCUTS, ...stored }
+  } catch {
+    return DEFAULT_SHORTCUTS
+  }
+}
+
+export function saveShortcutBindings(bindings: ShortcutBindings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings))
+}
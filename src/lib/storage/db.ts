@@ -0,0 +1,128 @@
+import type { Project } from '../projects/types'
+import { DEFAULT_STYLE_PROFILE_ID } from '../profiles'
+
+const DB_NAME = 'audio-subtitle-editor'
+const DB_VERSION = 3
+
+export const AUTOSAVE_STORE = 'autosave'
+export const PROJECTS_STORE = 'projects'
+export const AUDIO_STORE = 'audio'
+// Transcription jobs, keyed by project id
+export const JOBS_STORE = 'jobs'
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+// Version 1 kept a single autosaved session; it becomes the first project
+function migrateLegacySession(transaction: IDBTransaction) {
+  const autosave = transaction.objectStore(AUTOSAVE_STORE)
+  const sessionRequest = autosave.get('session')
+  const audioRequest = autosave.get('audio')
+
+  audioRequest.onsuccess = () => {
+    const session = sessionRequest.result
+    const audio = audioRequest.result
+    if (!session && !audio) return
+
+    const now = Date.now()
+    const project: Project = {
+      id: `project-${crypto.randomUUID()}`,
+      name: audio?.name?.replace(/\.[^/.]+$/, '') || 'Recovered session',
+      audio: audio ? { name: audio.name, type: audio.type, size: audio.blob.size } : null,
+      subtitles: session?.subtitles ?? [],
+      trackMetadata: session?.trackMetadata ?? {},
+      speechOptions: session?.speechOptions,
+      speakers: [],
+      markers: [],
+      language: 'en',
+      styleProfileId: DEFAULT_STYLE_PROFILE_ID,
+      status: 'draft',
+      createdAt: session?.savedAt ?? now,
+      modifiedAt: session?.savedAt ?? now
+    }
+    transaction.objectStore(PROJECTS_STORE).put(project)
+    if (audio) transaction.objectStore(AUDIO_STORE).put(audio.blob, project.id)
+    autosave.put(project.id, 'lastProjectId')
+    autosave.delete('session')
+    autosave.delete('audio')
+  }
+}
+
+function upgrade(database: IDBDatabase, transaction: IDBTransaction, oldVersion: number) {
+  if (!database.objectStoreNames.contains(AUTOSAVE_STORE)) {
+    database.createObjectStore(AUTOSAVE_STORE)
+  }
+  if (!database.objectStoreNames.contains(PROJECTS_STORE)) {
+    database.createObjectStore(PROJECTS_STORE, { keyPath: 'id' })
+  }
+  if (!database.objectStoreNames.contains(AUDIO_STORE)) {
+    database.createObjectStore(AUDIO_STORE)
+  }
+  if (!database.objectStoreNames.contains(JOBS_STORE)) {
+    database.createObjectStore(JOBS_STORE)
+  }
+  if (oldVersion === 1) migrateLegacySession(transaction)
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// One shared connection; IndexedDB is local, so this works with no network at all
+export function openDatabase() {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = (event) => {
+        upgrade(request.result, request.transaction!, event.oldVersion)
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    }).catch(error => {
+      databasePromise = null
+      throw error
+    })
+  }
+  return databasePromise
+}
+
+function transactionDone(transaction: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+/**
+ * Runs one request against a store and resolves once its transaction has
+ * committed, so a resolved write is actually on disk.
+ */
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+) {
+  const database = await openDatabase()
+  const transaction = database.transaction(storeName, mode)
+  const result = requestToPromise(run(transaction.objectStore(storeName)))
+  await transactionDone(transaction)
+  return result
+}
+
+/**
+ * Runs several requests in one transaction, for changes that must land
+ * together (a project and its audio, a read-modify-write).
+ */
+export async function withTransaction(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  run: (transaction: IDBTransaction) => void
+) {
+  const database = await openDatabase()
+  const transaction = database.transaction(storeNames, mode)
+  run(transaction)
+  await transactionDone(transaction)
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import { formatAssTimestamp, parseASS, serializeASS } from './ass'
+
+const SAMPLE = [
+  '[Script Info]',
+  'ScriptType: v4.00+',
+  'Title: Sample',
+  'PlayResX: 1920',
+  'PlayResY: 1080',
+  '',
+  '[V4+ Styles]',
+  'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+  'Style: Default,Arial,48,&H00FFFFFF,&H000000FF,&H00000000,&H00000000,0,0,0,0,100,100,0,0,1,2,2,2,10,10,10,1',
+  'Style: Sign,Georgia,40,&H0000FFFF,&H000000FF,&H00000000,&H00000000,-1,0,0,0,100,100,0,0,1,2,2,8,10,10,10,1',
+  '',
+  '[Events]',
+  'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+  'Dialogue: 0,0:00:01.00,0:00:02.50,Default,Anna,0,0,0,,Hello, {\\i1}world{\\i0}\\Nsecond line',
+  'Dialogue: 1,1:02:03.45,1:02:05.00,Sign,,0,0,20,,{\\an8}Exit',
+  'Comment: 0,0:00:00.00,0:00:00.00,Default,,0,0,0,,a note',
+  '',
+  '[Fonts]',
+  'fontname: custom.ttf',
+  ''
+].join('\n')
+
+describe('ASS', () => {
+  it('formats timestamps as H:MM:SS.cc', () => {
+    expect(formatAssTimestamp(3723.456)).toBe('1:02:03.46')
+    expect(formatAssTimestamp(0)).toBe('0:00:00.00')
+  })
+
+  it('reads styles, dialogue fields and line breaks', () => {
+    const { subtitles, errors, metadata } = parseASS(SAMPLE)
+
+    expect(errors).toEqual([])
+    expect(metadata?.styles?.map(style => style.name)).toEqual(['Default', 'Sign'])
+    expect(metadata?.styles?.[1]).toMatchObject({ fontName: 'Georgia', bold: true, alignment: 8 })
+    expect(subtitles[0]).toMatchObject({
+      startTime: 1,
+      endTime: 2.5,
+      style: 'Default',
+      text: 'Hello, {\\i1}world{\\i0}\nsecond line',
+      ass: { layer: 0, actor: 'Anna' }
+    })
+    expect(subtitles[1]).toMatchObject({ startTime: 3723.45, style: 'Sign', ass: { layer: 1, marginV: 20 } })
+  })
+
+  it('round-trips a script unchanged', () => {
+    const { subtitles, metadata } = parseASS(SAMPLE)
+    expect(serializeASS(subtitles, { metadata })).toBe(SAMPLE)
+  })
+
+  it('turns HTML tags into override tags and adds a default style', () => {
+    const output = serializeASS([{ id: 'a', startTime: 0, endTime: 1, text: '<i>Hi</i>\nthere' }])
+    expect(output).toContain('Style: Default,Arial,20,')
+    expect(output).toContain('Dialogue: 0,0:00:00.00,0:00:01.00,Default,,0,0,0,,{\\i1}Hi{\\i0}\\Nthere')
+  })
+
+  it('converts SSA colours and legacy alignment', () => {
+    const { metadata } = parseASS([
+      '[Script Info]',
+      '[V4 Styles]',
+      'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, TertiaryColour, BackColour, Bold, Italic, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, AlphaLevel, Encoding',
+      'Style: Default,Arial,20,16777215,255,0,0,0,0,1,2,2,6,10,10,10,0,1'
+    ].join('\n'))
+
+    expect(metadata?.styles?.[0]).toMatchObject({ primaryColour: '&H00FFFFFF', alignment: 8 })
+  })
+
+  it('reports bad dialogue lines', () => {
+    const { errors } = parseASS('[Events]\nFormat: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text\nDialogue: 0,0:00:05.00,0:00:01.00,Default,,0,0,0,,Backwards\nDialogue: 0,soon,0:00:01.00,Default,,0,0,0,,Bad')
+    expect(errors).toEqual([
+      { line: 3, message: 'Cue ends before it starts' },
+      { line: 4, message: 'Invalid timing "soon / 0:00:01.00"' }
+    ])
+  })
+
+  it('removes styling overrides the allowed tags leave out, keeping positioning', () => {
+    const output = serializeASS(
+      [{ id: 'a', startTime: 0, endTime: 1, text: '{\\an8\\b1\\i1}Loud{\\b0} <u>and</u> clear' }],
+      { allowedTags: ['i'] }
+    )
+    expect(output).toContain(',{\\an8\\i1}Loud and clear\n')
+  })
+})
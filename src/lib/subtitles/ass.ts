@@ -0,0 +1,299 @@
+import type {
+  AssMetadata,
+  SerializeOptions,
+  Subtitle,
+  SubtitleParseError,
+  SubtitleParseResult,
+  SubtitleFormat,
+  SubtitleStyle
+} from './types'
+import { parseTimecode } from './timecode'
+import { createSubtitleId } from './ids'
+import { htmlToAss, legacyAlignmentToNumpad, removeDisallowedTags } from './markup'
+
+const STYLE_FORMAT = [
+  'Name', 'Fontname', 'Fontsize', 'PrimaryColour', 'SecondaryColour', 'OutlineColour', 'BackColour',
+  'Bold', 'Italic', 'Underline', 'StrikeOut', 'ScaleX', 'ScaleY', 'Spacing', 'Angle',
+  'BorderStyle', 'Outline', 'Shadow', 'Alignment', 'MarginL', 'MarginR', 'MarginV', 'Encoding'
+]
+
+const EVENT_FORMAT = ['Layer', 'Start', 'End', 'Style', 'Name', 'MarginL', 'MarginR', 'MarginV', 'Effect', 'Text']
+
+export function createDefaultStyle(name = 'Default'): SubtitleStyle {
+  return {
+    name,
+    fontName: 'Arial',
+    fontSize: 20,
+    primaryColour: '&H00FFFFFF',
+    secondaryColour: '&H000000FF',
+    outlineColour: '&H00000000',
+    backColour: '&H00000000',
+    bold: false,
+    italic: false,
+    underline: false,
+    strikeOut: false,
+    scaleX: 100,
+    scaleY: 100,
+    spacing: 0,
+    angle: 0,
+    borderStyle: 1,
+    outline: 2,
+    shadow: 2,
+    alignment: 2,
+    marginL: 10,
+    marginR: 10,
+    marginV: 10,
+    encoding: 1
+  }
+}
+
+// ASS stores times as H:MM:SS.cc
+export function formatAssTimestamp(seconds: number) {
+  const totalCs = Math.max(0, Math.round(seconds * 100))
+  const hours = Math.floor(totalCs / 360_000)
+  const minutes = Math.floor(totalCs / 6000) % 60
+  const secs = Math.floor(totalCs / 100) % 60
+  const cs = totalCs % 100
+  return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${cs.toString().padStart(2, '0')}`
+}
+
+// SSA writes colours as decimal BGR integers, ASS as &HAABBGGRR
+function normaliseColour(value: string) {
+  const trimmed = value.trim()
+  if (/^-?\d+$/.test(trimmed)) {
+    const bgr = (Number(trimmed) >>> 0) & 0xffffff
+    return `&H00${bgr.toString(16).toUpperCase().padStart(6, '0')}`
+  }
+  return trimmed.toUpperCase()
+}
+
+function splitFields(rest: string, count: number) {
+  const fields: string[] = []
+  let remaining = rest
+  for (let i = 0; i < count - 1; i++) {
+    const comma = remaining.indexOf(',')
+    if (comma === -1) break
+    fields.push(remaining.slice(0, comma))
+    remaining = remaining.slice(comma + 1)
+  }
+  fields.push(remaining)
+  return fields
+}
+
+function parseStyle(fields: Record<string, string>, legacy: boolean): SubtitleStyle {
+  const style = createDefaultStyle(fields.name?.trim() || 'Default')
+  const number = (key: string, fallback: number) => {
+    const value = Number(fields[key])
+    return fields[key] !== undefined && Number.isFinite(value) ? value : fallback
+  }
+  const flag = (key: string, fallback: boolean) => (fields[key] !== undefined ? Number(fields[key]) !== 0 : fallback)
+  const colour = (key: string, fallback: string) => (fields[key] !== undefined ? normaliseColour(fields[key]) : fallback)
+
+  const alignment = number('alignment', style.alignment)
+  return {
+    ...style,
+    fontName: fields.fontname?.trim() || style.fontName,
+    fontSize: number('fontsize', style.fontSize),
+    primaryColour: colour('primarycolour', style.primaryColour),
+    secondaryColour: colour('secondarycolour', style.secondaryColour),
+    outlineColour: colour('outlinecolour', colour('tertiarycolour', style.outlineColour)),
+    backColour: colour('backcolour', style.backColour),
+    bold: flag('bold', style.bold),
+    italic: flag('italic', style.italic),
+    underline: flag('underline', style.underline),
+    strikeOut: flag('strikeout', style.strikeOut),
+    scaleX: number('scalex', style.scaleX),
+    scaleY: number('scaley', style.scaleY),
+    spacing: number('spacing', style.spacing),
+    angle: number('angle', style.angle),
+    borderStyle: number('borderstyle', style.borderStyle),
+    outline: number('outline', style.outline),
+    shadow: number('shadow', style.shadow),
+    alignment: legacy ? legacyAlignmentToNumpad(alignment) : alignment,
+    marginL: number('marginl', style.marginL),
+    marginR: number('marginr', style.marginR),
+    marginV: number('marginv', style.marginV),
+    encoding: number('encoding', style.encoding)
+  }
+}
+
+/**
+ * Reads Advanced SubStation Alpha (.ass) and SubStation Alpha v4 (.ssa)
+ * scripts. Styles become the track's style table, each cue keeps its style
+ * name and dialogue fields, and override tags stay in the cue text with `\N`
+ * turned into real line breaks.
+ */
+export function parseASS(text: string): SubtitleParseResult {
+  const lines = text.replace(/\uFEFF/g, '').split(/\r\n|\r|\n/)
+  const subtitles: Subtitle[] = []
+  const errors: SubtitleParseError[] = []
+  const styles: SubtitleStyle[] = []
+  const ass: AssMetadata = { scriptInfo: [], comments: [], extraSections: '' }
+  const extraLines: string[] = []
+
+  let section = ''
+  let styleFormat = STYLE_FORMAT.map(name => name.toLowerCase())
+  let eventFormat = EVENT_FORMAT.map(name => name.toLowerCase())
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim()
+    const lineNumber = index + 1
+
+    const header = /^\[(.+)\]$/.exec(line)
+    if (header) {
+      section = header[1].trim().toLowerCase()
+      if (!['script info', 'v4+ styles', 'v4 styles', 'events'].includes(section)) {
+        extraLines.push(rawLine)
+      }
+      return
+    }
+
+    if (section === 'script info') {
+      if (line) ass.scriptInfo.push(line)
+      return
+    }
+
+    if (section !== 'v4+ styles' && section !== 'v4 styles' && section !== 'events') {
+      if (section) extraLines.push(rawLine)
+      return
+    }
+
+    if (!line || line.startsWith(';')) return
+
+    const colon = line.indexOf(':')
+    const key = colon === -1 ? '' : line.slice(0, colon).trim()
+    const rest = colon === -1 ? '' : line.slice(colon + 1).replace(/^\s+/, '')
+
+    if (key === 'Format') {
+      const format = rest.split(',').map(name => name.trim().toLowerCase())
+      if (section === 'events') eventFormat = format
+      else styleFormat = format
+      return
+    }
+
+    if (section !== 'events') {
+      if (key !== 'Style') {
+        errors.push({ line: lineNumber, message: `Unexpected line in styles: "${line}"` })
+        return
+      }
+      const values = splitFields(rest, styleFormat.length)
+      const fields = Object.fromEntries(styleFormat.map((name, i) => [name, values[i]]))
+      styles.push(parseStyle(fields, section === 'v4 styles'))
+      return
+    }
+
+    if (key === 'Comment') {
+      ass.comments.push(line)
+      return
+    }
+    if (key !== 'Dialogue') {
+      errors.push({ line: lineNumber, message: `Unexpected line in events: "${line}"` })
+      return
+    }
+
+    const values = splitFields(rest, eventFormat.length)
+    if (values.length < eventFormat.length) {
+      errors.push({ line: lineNumber, message: 'Dialogue line has too few fields' })
+      return
+    }
+    const fields = Object.fromEntries(eventFormat.map((name, i) => [name, values[i]]))
+
+    const startTime = parseTimecode(fields.start ?? '')
+    const endTime = parseTimecode(fields.end ?? '')
+    if (startTime === null || endTime === null) {
+      errors.push({ line: lineNumber, message: `Invalid timing "${fields.start} / ${fields.end}"` })
+      return
+    }
+    if (endTime < startTime) {
+      errors.push({ line: lineNumber, message: 'Cue ends before it starts' })
+      return
+    }
+
+    subtitles.push({
+      id: createSubtitleId(),
+      startTime,
+      endTime,
+      text: (fields.text ?? '').replace(/\\N/g, '\n'),
+      style: fields.style?.trim() || 'Default',
+      ass: {
+        layer: Number(fields.layer) || 0,
+        actor: fields.name?.trim() ?? '',
+        marginL: Number(fields.marginl) || 0,
+        marginR: Number(fields.marginr) || 0,
+        marginV: Number(fields.marginv) || 0,
+        effect: fields.effect ?? ''
+      }
+    })
+  })
+
+  ass.extraSections = extraLines.join('\n').trim()
+  return { subtitles, errors, metadata: { ass, styles } }
+}
+
+function formatStyle(style: SubtitleStyle) {
+  const flag = (value: boolean) => (value ? '-1' : '0')
+  return 'Style: ' + [
+    style.name, style.fontName, style.fontSize,
+    style.primaryColour, style.secondaryColour, style.outlineColour, style.backColour,
+    flag(style.bold), flag(style.italic), flag(style.underline), flag(style.strikeOut),
+    style.scaleX, style.scaleY, style.spacing, style.angle,
+    style.borderStyle, style.outline, style.shadow, style.alignment,
+    style.marginL, style.marginR, style.marginV, style.encoding
+  ].join(',')
+}
+
+function formatDialogue(subtitle: Subtitle, allowedTags?: string[]) {
+  const fields = subtitle.ass ?? { layer: 0, actor: '', marginL: 0, marginR: 0, marginV: 0, effect: '' }
+  const converted = htmlToAss(subtitle.text)
+  const text = (allowedTags ? removeDisallowedTags(converted, allowedTags) : converted).replace(/\r?\n/g, '\\N')
+  return 'Dialogue: ' + [
+    fields.layer,
+    formatAssTimestamp(subtitle.startTime),
+    formatAssTimestamp(subtitle.endTime),
+    subtitle.style ?? 'Default',
+    fields.actor,
+    fields.marginL,
+    fields.marginR,
+    fields.marginV,
+    fields.effect,
+    text
+  ].join(',')
+}
+
+/**
+ * Writes an ASS v4+ script. Cues from SRT/WebVTT have their HTML-style tags
+ * turned into override tags; a Default style is added when the track has no
+ * style table of its own.
+ */
+export function serializeASS(subtitles: Subtitle[], options: SerializeOptions = {}) {
+  const metadata = options.metadata ?? {}
+  const ordered = [...subtitles].sort((a, b) => a.startTime - b.startTime)
+  const styles = metadata.styles?.length ? metadata.styles : [createDefaultStyle()]
+
+  const scriptInfo = (metadata.ass?.scriptInfo ?? ['; Script generated by Audio Subtitle Editor', 'PlayResX: 384', 'PlayResY: 288'])
+    .filter(line => !line.startsWith('ScriptType:'))
+
+  const sections = [
+    ['[Script Info]', 'ScriptType: v4.00+', ...scriptInfo].join('\n'),
+    ['[V4+ Styles]', `Format: ${STYLE_FORMAT.join(', ')}`, ...styles.map(formatStyle)].join('\n'),
+    [
+      '[Events]',
+      `Format: ${EVENT_FORMAT.join(', ')}`,
+      ...ordered.map(subtitle => formatDialogue(subtitle, options.allowedTags)),
+      ...(metadata.ass?.comments ?? [])
+    ].join('\n')
+  ]
+  if (metadata.ass?.extraSections) sections.push(metadata.ass.extraSections)
+
+  return sections.join('\n\n') + '\n'
+}
+
+export const assFormat: SubtitleFormat = {
+  id: 'ass',
+  name: 'Advanced SubStation Alpha',
+  extensions: ['ass', 'ssa'],
+  mimeType: 'text/x-ssa',
+  sniff: text => /^\s*\[Script Info\]/i.test(text.replace(/^\uFEFF/, '')) || /^\[Events\]\s*$/im.test(text),
+  parse: parseASS,
+  serialize: serializeASS
+}
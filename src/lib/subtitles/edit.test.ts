@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest'
+import { MIN_CUE_DURATION, cuesInRange, deleteCue, insertCue, mergeCues, replaceCuesInRange, splitCue } from './edit'
+import type { Subtitle } from './types'
+
+const cue = (id: string, startTime: number, endTime: number, text = id): Subtitle => ({ id, startTime, endTime, text })
+
+const spans = (subtitles: Subtitle[]) => subtitles.map(sub => [sub.startTime, sub.endTime, sub.text])
+
+describe('splitting cues', () => {
+  const track = [cue('a', 0, 4, 'one two three four'), cue('b', 5, 6)]
+
+  it('splits at the time, keeping the id on the first half', () => {
+    const result = splitCue(track, 'a', 2)!
+
+    expect(spans(result.subtitles)).toEqual([[0, 2, 'one two'], [2, 4, 'three four'], [5, 6, 'b']])
+    expect(result.subtitles[0].id).toBe('a')
+    expect(result.id).toBe(result.subtitles[1].id)
+    expect(result.id).not.toBe('a')
+  })
+
+  it('cuts the text at the cursor when given one', () => {
+    const result = splitCue(track, 'a', 1, 3)!
+    expect(spans(result.subtitles).slice(0, 2)).toEqual([[0, 1, 'one'], [1, 4, 'two three four']])
+  })
+
+  it('refuses a split at the edges, outside the cue or of an unknown cue', () => {
+    expect(splitCue(track, 'a', 0)).toBeNull()
+    expect(splitCue(track, 'a', MIN_CUE_DURATION / 2)).toBeNull()
+    expect(splitCue(track, 'a', 4)).toBeNull()
+    expect(splitCue(track, 'a', 5.5)).toBeNull()
+    expect(splitCue(track, 'missing', 2)).toBeNull()
+  })
+})
+
+describe('merging cues', () => {
+  // Deliberately out of order: neighbours are found by time, not by position
+  const track = [cue('c', 6, 7), cue('a', 0, 2), cue('b', 3, 5)]
+
+  it('joins a cue with the next one in time, keeping the earlier id', () => {
+    const result = mergeCues(track, 'a', 'next')!
+    expect(result.id).toBe('a')
+    expect(spans(result.subtitles)).toEqual([[0, 5, 'a\nb'], [6, 7, 'c']])
+  })
+
+  it('joins a cue with the previous one in time', () => {
+    const result = mergeCues(track, 'c', 'previous')!
+    expect(result.id).toBe('b')
+    expect(spans(result.subtitles)).toEqual([[0, 2, 'a'], [3, 7, 'b\nc']])
+  })
+
+  it('has nothing to merge with past either end', () => {
+    expect(mergeCues(track, 'a', 'previous')).toBeNull()
+    expect(mergeCues(track, 'c', 'next')).toBeNull()
+    expect(mergeCues(track, 'missing', 'next')).toBeNull()
+  })
+
+  it('drops empty text rather than leaving a blank line', () => {
+    const result = mergeCues([cue('a', 0, 1, ''), cue('b', 1, 2, 'Hi')], 'a', 'next')!
+    expect(result.subtitles[0].text).toBe('Hi')
+  })
+})
+
+describe('inserting cues', () => {
+  const track = [cue('a', 0, 2), cue('b', 3, 5)]
+
+  it('inserts at the time, stopping short of the next cue', () => {
+    const result = insertCue(track, 2.2)!
+    const inserted = result.subtitles.find(sub => sub.id === result.id)
+    expect(inserted).toMatchObject({ startTime: 2.2, endTime: 3, text: '' })
+    expect(result.subtitles.map(sub => sub.id)).toEqual(['a', result.id, 'b'])
+  })
+
+  it('starts after a cue the time falls inside', () => {
+    const result = insertCue(track, 1)!
+    expect(result.subtitles[1]).toMatchObject({ startTime: 2, endTime: 3 })
+  })
+
+  it('refuses a gap that is too small', () => {
+    expect(insertCue([cue('a', 0, 2), cue('b', 2.05, 4)], 1)).toBeNull()
+    expect(insertCue(track, 6, { maxTime: 6.05 })).toBeNull()
+  })
+
+  it('uses the given length after the last cue', () => {
+    const result = insertCue(track, 6, { length: 1.5 })!
+    expect(result.subtitles[2]).toMatchObject({ startTime: 6, endTime: 7.5 })
+  })
+})
+
+describe('deleting cues', () => {
+  const track = [cue('a', 0, 1), cue('b', 2, 3), cue('c', 4, 5)]
+
+  it('selects the following cue, or the previous one at the end', () => {
+    expect(deleteCue(track, 'b')).toEqual({ subtitles: [track[0], track[2]], id: 'c' })
+    expect(deleteCue(track, 'c').id).toBe('b')
+  })
+
+  it('leaves the track alone for an unknown cue and selects nothing once it is empty', () => {
+    expect(deleteCue(track, 'missing')).toEqual({ subtitles: track, id: null })
+    expect(deleteCue([track[0]], 'a')).toEqual({ subtitles: [], id: null })
+  })
+})
+
+describe('replacing a range', () => {
+  const track = [cue('a', 0, 3), cue('b', 4, 6), cue('c', 7, 9), cue('d', 10, 14)]
+
+  it('takes the cues whose midpoint is inside the range', () => {
+    expect(cuesInRange(track, { start: 2, end: 12.5 }).map(sub => sub.id)).toEqual(['b', 'c', 'd'])
+    expect(cuesInRange(track, { start: 2, end: 11.9 }).map(sub => sub.id)).toEqual(['b', 'c'])
+    expect(cuesInRange(track, { start: 6.5, end: 7.5 })).toEqual([])
+  })
+
+  it('keeps cues outside the range as they were, ids included', () => {
+    const result = replaceCuesInRange(track, { start: 3.5, end: 9.5 }, [cue('new', 4.5, 8.5)])
+
+    expect(result.map(sub => sub.id)).toEqual(['a', 'new', 'd'])
+    expect(result[0]).toBe(track[0])
+    expect(result[2]).toBe(track[3])
+  })
+
+  it('trims replacements that run into the cues kept at both ends', () => {
+    const result = replaceCuesInRange(track, { start: 3.5, end: 9.5 }, [cue('x', 2, 5), cue('y', 8, 11)])
+    expect(spans(result)).toEqual([[0, 3, 'a'], [3, 5, 'x'], [8, 10, 'y'], [10, 14, 'd']])
+  })
+
+  it('drops replacements left too short and can leave the range empty', () => {
+    const result = replaceCuesInRange(track, { start: 3.5, end: 9.5 }, [cue('sliver', 2.5, 3.05)])
+    expect(result.map(sub => sub.id)).toEqual(['a', 'd'])
+    expect(replaceCuesInRange(track, { start: 3.5, end: 9.5 }, []).map(sub => sub.id)).toEqual(['a', 'd'])
+  })
+})
@@ -0,0 +1,142 @@
+import type { Subtitle } from './types'
+import { createSubtitleId } from './ids'
+
+// Shortest cue an edit may leave behind
+export const MIN_CUE_DURATION = 0.1
+
+export interface CueEditResult {
+  subtitles: Subtitle[]
+  // The cue the editor should select afterwards
+  id: string
+}
+
+function sortByStart(subtitles: Subtitle[]) {
+  return [...subtitles].sort((a, b) => a.startTime - b.startTime)
+}
+
+// Without a cursor, break at the word boundary closest to the split time
+function proportionalOffset(text: string, fraction: number) {
+  const target = text.length * fraction
+  let best = -1
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i]) && (best === -1 || Math.abs(i - target) < Math.abs(best - target))) best = i
+  }
+  return best === -1 ? text.length : best
+}
+
+/**
+ * Splits a cue in two at `time`. The text is cut at `textOffset` (the editor
+ * cursor) when given. The first half keeps the original id so the selection
+ * and any history entries still point at it; the second half gets a new id.
+ */
+export function splitCue(subtitles: Subtitle[], id: string, time: number, textOffset?: number): CueEditResult | null {
+  const cue = subtitles.find(sub => sub.id === id)
+  if (!cue) return null
+  if (time < cue.startTime + MIN_CUE_DURATION || time > cue.endTime - MIN_CUE_DURATION) return null
+
+  const offset = textOffset ?? proportionalOffset(cue.text, (time - cue.startTime) / (cue.endTime - cue.startTime))
+  const first: Subtitle = { ...cue, endTime: time, text: cue.text.slice(0, offset).trim() }
+  const second: Subtitle = {
+    ...cue,
+    id: createSubtitleId(),
+    identifier: undefined,
+    startTime: time,
+    text: cue.text.slice(offset).trim()
+  }
+
+  const next = subtitles.flatMap(sub => (sub.id === id ? [first, second] : [sub]))
+  return { subtitles: sortByStart(next), id: second.id }
+}
+
+/**
+ * Joins a cue with its neighbour in time order. The earlier cue survives,
+ * spanning both, with the texts on separate lines.
+ */
+export function mergeCues(subtitles: Subtitle[], id: string, direction: 'previous' | 'next'): CueEditResult | null {
+  const ordered = sortByStart(subtitles)
+  const index = ordered.findIndex(sub => sub.id === id)
+  const otherIndex = direction === 'next' ? index + 1 : index - 1
+  if (index === -1 || otherIndex < 0 || otherIndex >= ordered.length) return null
+
+  const [first, second] = direction === 'next'
+    ? [ordered[index], ordered[otherIndex]]
+    : [ordered[otherIndex], ordered[index]]
+
+  const merged: Subtitle = {
+    ...first,
+    endTime: Math.max(first.endTime, second.endTime),
+    text: [first.text, second.text].filter(text => text.trim()).join('\n')
+  }
+
+  const next = ordered
+    .filter(sub => sub.id !== second.id)
+    .map(sub => (sub.id === first.id ? merged : sub))
+  return { subtitles: next, id: merged.id }
+}
+
+/**
+ * Adds an empty cue at `time`. A time inside an existing cue starts the new
+ * one where that cue ends, and the new cue stops short of the next one.
+ * Returns null when there is no room before the next cue or `maxTime`.
+ */
+export function insertCue(
+  subtitles: Subtitle[],
+  time: number,
+  { length = 2, maxTime = Infinity }: { length?: number; maxTime?: number } = {}
+): CueEditResult | null {
+  const ordered = sortByStart(subtitles)
+  const covering = ordered.find(sub => time >= sub.startTime && time < sub.endTime)
+  const startTime = covering ? covering.endTime : Math.max(0, time)
+  const following = ordered.find(sub => sub.startTime >= startTime && sub.id !== covering?.id)
+  const endTime = Math.min(startTime + length, following?.startTime ?? Infinity, maxTime)
+
+  if (endTime - startTime < MIN_CUE_DURATION) return null
+
+  const cue: Subtitle = { id: createSubtitleId(), startTime, endTime, text: '' }
+  return { subtitles: sortByStart([...ordered, cue]), id: cue.id }
+}
+
+// Removes a cue; the neighbour that follows it (or precedes it, at the end) is selected next
+export function deleteCue(subtitles: Subtitle[], id: string): { subtitles: Subtitle[]; id: string | null } {
+  const ordered = sortByStart(subtitles)
+  const index = ordered.findIndex(sub => sub.id === id)
+  if (index === -1) return { subtitles, id: null }
+
+  const next = ordered.filter(sub => sub.id !== id)
+  return { subtitles: next, id: next[Math.min(index, next.length - 1)]?.id ?? null }
+}
+
+export interface TimeRange {
+  start: number
+  end: number
+}
+
+// A cue belongs to a range when its midpoint falls inside it
+export function cuesInRange(subtitles: Subtitle[], { start, end }: TimeRange) {
+  return sortByStart(subtitles).filter(sub => {
+    const middle = (sub.startTime + sub.endTime) / 2
+    return middle >= start && middle <= end
+  })
+}
+
+/**
+ * Swaps the cues in a range for `replacement`. Cues outside the range are
+ * kept untouched; replacement cues are trimmed where they run into them, and
+ * dropped if that leaves them shorter than MIN_CUE_DURATION.
+ */
+export function replaceCuesInRange(subtitles: Subtitle[], range: TimeRange, replacement: Subtitle[]) {
+  const removed = new Set(cuesInRange(subtitles, range).map(sub => sub.id))
+  const kept = subtitles.filter(sub => !removed.has(sub.id))
+
+  const fitted = replacement.flatMap(cue => {
+    let { startTime, endTime } = cue
+    for (const other of kept) {
+      if (other.endTime <= startTime || other.startTime >= endTime) continue
+      if (other.startTime <= startTime) startTime = other.endTime
+      else endTime = other.startTime
+    }
+    return endTime - startTime >= MIN_CUE_DURATION ? [{ ...cue, startTime, endTime }] : []
+  })
+
+  return sortByStart([...kept, ...fitted])
+}
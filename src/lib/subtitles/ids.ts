@@ -0,0 +1,4 @@
+// Cues get random ids so imported, split and inserted cues never collide
+export function createSubtitleId() {
+  return `subtitle-${crypto.randomUUID()}`
+}
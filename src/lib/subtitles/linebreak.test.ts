@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { breakCueLines, breakLines } from './linebreak'
+import type { Subtitle } from './types'
+
+const options = { maxCharsPerLine: 42, maxLines: 2 }
+
+describe('line breaking', () => {
+  it('joins text that fits on one line', () => {
+    expect(breakLines('Hello\nthere', options)).toBe('Hello there')
+  })
+
+  it('breaks at punctuation and keeps articles with their nouns', () => {
+    expect(breakLines('We went down to the river, and when the boat came in we got on', options))
+      .toBe('We went down to the river,\nand when the boat came in we got on')
+    expect(breakLines('I think that you should really take the bus to the station today', options).split('\n')[0])
+      .not.toMatch(/\bthe$/)
+  })
+
+  it('keeps every line within the limit when it can', () => {
+    const text = 'so we went down to the river and when the boat came in at last we all got on board'
+    const lines = breakLines(text, { maxCharsPerLine: 32, maxLines: 3 }).split('\n')
+
+    expect(lines.length).toBeLessThanOrEqual(3)
+    expect(lines.every(line => line.length <= 32)).toBe(true)
+    expect(lines.join(' ')).toBe(text)
+  })
+
+  it('leaves dialogue lines alone', () => {
+    const dialogue = '- Are you coming?\n- Yes.'
+    expect(breakLines(dialogue, options)).toBe(dialogue)
+  })
+
+  it('never splits inside a tag', () => {
+    const text = 'The <font color="red">warning light</font> came on just as we reached the top of the hill'
+    expect(breakLines(text, options).replace('\n', ' ')).toBe(text)
+  })
+
+  it('splits long text across every line without losing words', () => {
+    const words = 'so we went down to the river, and when the boat came in at last we all got on board'.split(' ')
+    const text = Array.from({ length: 160 }, (_, index) => words[index % words.length]).join(' ')
+    const lines = breakLines(text, { maxCharsPerLine: 42, maxLines: 10 }).split('\n')
+
+    expect(lines).toHaveLength(10)
+    expect(lines.join(' ')).toBe(text)
+    expect(Math.max(...lines.map(line => line.length))).toBeLessThanOrEqual(84)
+  })
+
+  it('treats limits below one, fractions and NaN as usable limits', () => {
+    const text = 'We went down to the river together'
+
+    expect(breakLines(text, { maxCharsPerLine: 42, maxLines: 0 })).toBe(text)
+    expect(breakLines(text, { maxCharsPerLine: 0, maxLines: 2 }).split('\n')).toHaveLength(2)
+    expect(breakLines(text, { maxCharsPerLine: -5, maxLines: -1 })).toBe(text)
+    expect(breakLines(text, { maxCharsPerLine: 20.7, maxLines: 2.9 })).toBe(breakLines(text, { maxCharsPerLine: 20, maxLines: 2 }))
+    expect(breakLines(text, { maxCharsPerLine: NaN, maxLines: NaN })).toBe(text)
+  })
+
+  it('keeps the identity of cues it leaves unchanged', () => {
+    const cues: Subtitle[] = [
+      { id: 'a', startTime: 0, endTime: 1, text: 'Short' },
+      { id: 'b', startTime: 1, endTime: 2, text: 'Also\nshort' }
+    ]
+    const broken = breakCueLines(cues, options)
+
+    expect(broken[0]).toBe(cues[0])
+    expect(broken[1]).toEqual({ ...cues[1], text: 'Also short' })
+    expect(breakCueLines(cues, options, new Set(['a']))[1]).toBe(cues[1])
+  })
+})
@@ -0,0 +1,156 @@
+import type { Subtitle } from './types'
+import { visibleText } from './qc'
+
+export interface LineBreakOptions {
+  maxCharsPerLine: number
+  maxLines: number
+}
+
+// Words that belong with the word after them; a line shouldn't end on one
+const LEADING_WORDS = new Set([
+  'a', 'an', 'the', 'this', 'that', 'these', 'those',
+  'my', 'your', 'his', 'her', 'its', 'our', 'their',
+  'mr.', 'mrs.', 'ms.', 'dr.'
+])
+
+// Conjunctions and prepositions that open a clause or phrase; a line can start on one
+const CLAUSE_WORDS = new Set([
+  'and', 'but', 'or', 'nor', 'so', 'yet', 'because', 'although', 'though', 'while',
+  'when', 'where', 'which', 'who', 'whom', 'whose', 'that', 'if', 'unless', 'until',
+  'to', 'in', 'on', 'at', 'for', 'with', 'from', 'about', 'into', 'of'
+])
+
+// Whole tags count as part of a word, so `<font color="red">` never splits at its space
+const WORD_PATTERN = /(?:<[^>]*>|\S)+/g
+
+const bare = (word: string) => visibleText(word).toLowerCase().replace(/^["'([¿¡]+|["')\]]+$/g, '')
+
+// Lower is better. Positive costs push the break elsewhere, negative ones attract it.
+function breakCost(before: string, after: string) {
+  const last = visibleText(before)
+  let cost = 0
+  if (/[.!?…]["')\]]*$/.test(last)) cost -= 30
+  else if (/[,;:—–]["')\]]*$/.test(last)) cost -= 20
+  else if (CLAUSE_WORDS.has(bare(after))) cost -= 8
+  if (LEADING_WORDS.has(bare(before))) cost += 50
+  return cost
+}
+
+// Even lines read best; when they can't be, the longer one goes underneath
+function balanceCost(upper: number, lower: number) {
+  return Math.abs(upper - lower) + (upper > lower ? (upper - lower) * 0.5 : 0)
+}
+
+function overflowCost(length: number, maxCharsPerLine: number) {
+  return length > maxCharsPerLine ? 1000 + (length - maxCharsPerLine) * 100 : 0
+}
+
+// Every extra line costs a little, so short text stays on one
+const EXTRA_LINE_COST = 5
+
+// Lines longer than this many times the limit are never considered
+const LINE_WINDOW = 1.5
+
+// Splits words into lines of roughly even length without weighing the breaks
+function evenLines(words: string[], offsets: number[], lineCount: number) {
+  const target = (offsets[words.length] - 1) / lineCount
+  const lines: string[][] = [[]]
+  words.forEach((word, index) => {
+    const current = lines[lines.length - 1]
+    if (current.length > 0 && offsets[index] >= target * lines.length && lines.length < lineCount) lines.push([word])
+    else current.push(word)
+  })
+  return lines.map(line => line.join(' ')).join('\n')
+}
+
+/**
+ * Re-flows cue text into at most `maxLines` lines no longer than
+ * `maxCharsPerLine`. Breaks favour punctuation and clause boundaries, keep
+ * articles with their nouns and make the lower line the longer one. Text
+ * that fits on one line is joined onto it, and dialogue cues (every line
+ * opening with a dash) keep their speaker lines. When nothing fits, the
+ * result overflows as little as possible and quality checks report it.
+ */
+export function breakLines(text: string, options: LineBreakOptions) {
+  // Limits come from user-editable profiles; anything below one line of one character can't be laid out
+  const maxCharsPerLine = Math.max(1, Math.floor(options.maxCharsPerLine) || 1)
+  const maxLines = Math.max(1, Math.floor(options.maxLines) || 1)
+
+  const existing = text.split(/\r?\n/).filter(line => line.trim())
+  if (existing.length > 1 && existing.every(line => /^\s*[-–—]/.test(visibleText(line)))) return text
+
+  const words = text.match(WORD_PATTERN) ?? []
+  if (words.length === 0) return text
+
+  // Visible length of words[from..to) joined with spaces
+  const offsets = [0]
+  words.forEach(word => offsets.push(offsets[offsets.length - 1] + visibleText(word).length + 1))
+  const length = (from: number, to: number) => offsets[to] - offsets[from] - 1
+  const n = words.length
+  const lineCount = Math.min(maxLines, n)
+
+  // Far too much text for the cue; it needs splitting, and weighing every break would only stall the editor
+  if (length(0, n) > maxCharsPerLine * lineCount * 2) return evenLines(words, offsets, lineCount)
+
+  // No line worth considering runs far past the limit, which keeps the search close to linear in the words
+  const window = maxCharsPerLine * LINE_WINDOW
+  const fits = (from: number, to: number) => to - from === 1 || length(from, to) <= window
+
+  // cost[k][j][i]: best cost of words[0..i) on k + 1 lines, the last being words[j..i).
+  // Line costs only depend on neighbouring lines, so this finds the best layout without trying them all.
+  const cost = Array.from({ length: lineCount }, () => Array.from({ length: n }, () => new Array<number>(n + 1).fill(Infinity)))
+  const from = Array.from({ length: lineCount }, () => Array.from({ length: n }, () => new Array<number>(n + 1).fill(-1)))
+
+  for (let i = 1; i <= n && fits(0, i); i++) cost[0][0][i] = overflowCost(length(0, i), maxCharsPerLine)
+  for (let k = 1; k < lineCount; k++) {
+    for (let j = 1; j < n; j++) {
+      let first = j - 1
+      while (first > 0 && fits(first - 1, j)) first--
+      for (let i = j + 1; i <= n && fits(j, i); i++) {
+        const line = length(j, i)
+        for (let p = first; p < j; p++) {
+          if (cost[k - 1][p][j] === Infinity) continue
+          const total = cost[k - 1][p][j] +
+            overflowCost(line, maxCharsPerLine) +
+            balanceCost(length(p, j), line) +
+            breakCost(words[j - 1], words[j]) +
+            EXTRA_LINE_COST
+          if (total < cost[k][j][i]) {
+            cost[k][j][i] = total
+            from[k][j][i] = p
+          }
+        }
+      }
+    }
+  }
+
+  let best = { k: 0, j: 0, total: cost[0][0][n] }
+  for (let k = 1; k < lineCount; k++) {
+    for (let j = 1; j < n; j++) {
+      if (cost[k][j][n] < best.total) best = { k, j, total: cost[k][j][n] }
+    }
+  }
+  // Only when no layout keeps every line inside the window
+  if (best.total === Infinity) return evenLines(words, offsets, lineCount)
+
+  const lines: string[] = []
+  let { k, j } = best
+  let end = n
+  while (k >= 0) {
+    lines.unshift(words.slice(j, end).join(' '))
+    const previous = from[k][j][end]
+    end = j
+    j = previous
+    k--
+  }
+  return lines.join('\n')
+}
+
+// Breaks the lines of the given cues, or every cue; unchanged cues keep their identity
+export function breakCueLines(subtitles: Subtitle[], options: LineBreakOptions, ids?: Set<string>) {
+  return subtitles.map(sub => {
+    if (ids && !ids.has(sub.id)) return sub
+    const text = breakLines(sub.text, options)
+    return text === sub.text ? sub : { ...sub, text }
+  })
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest'
+import { markupTags, removeDisallowedTags } from './markup'
+
+describe('markup tags', () => {
+  it('names HTML-style tags and the ASS overrides they stand for', () => {
+    expect(markupTags('<i>One</i> <c.yellow>two</c> {\\b1\\c&H00FFFF&\\pos(10,20)}three'))
+      .toEqual(['i', 'c', 'b', 'font'])
+    expect(markupTags('{\\an8\\fad(100,200)}Plain {laughs}')).toEqual([])
+  })
+
+  it('removes tags that are not allowed and keeps their text', () => {
+    expect(removeDisallowedTags('<v Anna><i>Hi</i></v> <font color="red">there</font>', ['i']))
+      .toBe('<i>Hi</i> there')
+  })
+
+  it('removes disallowed overrides without losing the rest of the block', () => {
+    expect(removeDisallowedTags('{\\an8\\b1\\t(0,500,\\i1)}Up {\\u1}here{\\u0}', ['i']))
+      .toBe('{\\an8\\t(0,500,\\i1)}Up here')
+  })
+})
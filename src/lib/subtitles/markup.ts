@@ -0,0 +1,236 @@
+import type { CueSettings, SubtitleStyle, TrackMetadata } from './types'
+
+type HtmlTag = 'i' | 'b' | 'u' | 's'
+
+export interface ConvertedCueText {
+  text: string
+  // Numpad alignment (1-9) from an \an tag or the cue's style
+  alignment?: number
+  // \pos(x,y) in script resolution pixels
+  position?: { x: number; y: number }
+}
+
+interface HtmlConversionOptions {
+  // SRT writes alignment as an inline `{\anN}`, a convention most players understand
+  keepAlignmentTag?: boolean
+  fontColours?: boolean
+}
+
+// SSA v4 alignment: 1-3 bottom, +4 top, +8 middle
+export function legacyAlignmentToNumpad(value: number) {
+  const column = value & 3
+  if (value & 4) return column + 6
+  if (value & 8) return column + 3
+  return column
+}
+
+export function findStyle(metadata: TrackMetadata | undefined, name: string | undefined) {
+  const styles = metadata?.styles ?? []
+  return styles.find(style => style.name === name) ?? styles.find(style => style.name === 'Default')
+}
+
+function assColourToHex(colour: string) {
+  const hex = colour.replace(/^&H/i, '').replace(/&$/, '').padStart(6, '0').slice(-6)
+  const [bb, gg, rr] = [hex.slice(0, 2), hex.slice(2, 4), hex.slice(4, 6)]
+  return `#${rr}${gg}${bb}`.toUpperCase()
+}
+
+function hexToAssColour(hex: string) {
+  const value = hex.replace('#', '').padStart(6, '0')
+  const [rr, gg, bb] = [value.slice(0, 2), value.slice(2, 4), value.slice(4, 6)]
+  return `&H${bb}${gg}${rr}&`.toUpperCase()
+}
+
+/**
+ * Turns ASS override tags into the HTML-like markup SRT and WebVTT use.
+ * Tags with no equivalent (`\pos`, `\fad`, `\blur`, karaoke, ...) are dropped;
+ * alignment and position are returned so the caller can map them onto its own
+ * positioning scheme.
+ */
+export function assToHtml(
+  rawText: string,
+  style?: SubtitleStyle,
+  options: HtmlConversionOptions = {}
+): ConvertedCueText {
+  const result: ConvertedCueText = {
+    text: '',
+    alignment: style && style.alignment !== 2 ? style.alignment : undefined
+  }
+  const defaults: Record<HtmlTag, boolean> = {
+    i: style?.italic ?? false,
+    b: style?.bold ?? false,
+    u: style?.underline ?? false,
+    s: style?.strikeOut ?? false
+  }
+  const open: HtmlTag[] = []
+  let fontOpen = false
+
+  const setTag = (tag: HtmlTag, on: boolean) => {
+    const index = open.indexOf(tag)
+    if (on && index === -1) {
+      result.text += `<${tag}>`
+      open.push(tag)
+    } else if (!on && index !== -1) {
+      result.text += `</${tag}>`
+      open.splice(index, 1)
+    }
+  }
+
+  const setColour = (colour?: string) => {
+    if (!options.fontColours) return
+    if (fontOpen) result.text += '</font>'
+    fontOpen = Boolean(colour)
+    if (colour) result.text += `<font color="${assColourToHex(colour)}">`
+  }
+
+  const applyOverrides = (block: string) => {
+    // \t(...) animates other tags; its contents would be misread below
+    const tags = block.replace(/\\t\([^)]*\)/g, '').split('\\').slice(1)
+    for (const tag of tags) {
+      let match: RegExpExecArray | null
+      if ((match = /^an([1-9])/.exec(tag))) {
+        result.alignment = Number(match[1])
+      } else if ((match = /^a(\d+)$/.exec(tag))) {
+        result.alignment = legacyAlignmentToNumpad(Number(match[1]))
+      } else if ((match = /^pos\(([-\d.]+),([-\d.]+)\)/.exec(tag))) {
+        result.position = { x: Number(match[1]), y: Number(match[2]) }
+      } else if ((match = /^([ius])([01])?$/.exec(tag))) {
+        const name = match[1] as HtmlTag
+        setTag(name, match[2] === undefined ? defaults[name] : match[2] === '1')
+      } else if ((match = /^b(\d+)?$/.exec(tag))) {
+        const weight = match[1] === undefined ? (defaults.b ? 1 : 0) : Number(match[1])
+        setTag('b', weight === 1 || weight >= 700)
+      } else if ((match = /^1?c(&H[0-9a-f]+&?)?$/i.exec(tag))) {
+        setColour(match[1])
+      } else if (/^r/.test(tag)) {
+        for (const name of [...open].reverse()) setTag(name, false)
+        for (const name of Object.keys(defaults) as HtmlTag[]) setTag(name, defaults[name])
+        setColour()
+      }
+    }
+  }
+
+  for (const name of Object.keys(defaults) as HtmlTag[]) setTag(name, defaults[name])
+
+  // Only brace blocks holding a tag are overrides; "{laughs}" is plain text
+  for (const part of rawText.split(/(\{\\[^}]*\})/)) {
+    if (part.startsWith('{\\') && part.endsWith('}')) {
+      applyOverrides(part.slice(1, -1))
+    } else {
+      result.text += part
+        .replace(/\\N/g, '\n')
+        .replace(/\\n/g, ' ')
+        .replace(/\\h/g, '\u00A0')
+    }
+  }
+
+  setColour()
+  for (const name of [...open].reverse()) setTag(name, false)
+
+  if (options.keepAlignmentTag && result.alignment && result.alignment !== 2) {
+    result.text = `{\\an${result.alignment}}` + result.text
+  }
+  return result
+}
+
+/**
+ * Turns SRT/WebVTT markup into ASS override tags. Unknown tags such as WebVTT
+ * voice spans or class spans are stripped.
+ */
+export function htmlToAss(text: string) {
+  return text
+    .replace(/<(\/?)([ibus])(?:\.[^>]*)?>/gi, (_, closing: string, tag: string) => `{\\${tag.toLowerCase()}${closing ? 0 : 1}}`)
+    .replace(/<font[^>]*color="?(#[0-9a-f]{6})"?[^>]*>/gi, (_, hex: string) => `{\\c${hexToAssColour(hex)}}`)
+    .replace(/<\/font>/gi, '{\\c}')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+}
+
+const TAG_PATTERN = /<\/?([a-z][\w-]*)[^>]*>/gi
+
+// One override tag, including a parenthesised argument that may hold tags of its own (`\t(\i1)`)
+const OVERRIDE_PATTERN = /\\(?:\([^)]*\)|[^\\(])*/g
+
+// The HTML tag a styling override stands for; positioning and effects have none
+function overrideTagName(tag: string) {
+  if (/^\\[ius][01]?$/.test(tag)) return tag[1]
+  if (/^\\b\d*$/.test(tag)) return 'b'
+  if (/^\\1?c(&H[0-9a-f]+&?)?$/i.test(tag)) return 'font'
+  return null
+}
+
+/**
+ * Names of the markup tags in a cue (`<i>`, `<font color=...>`, `<c.yellow>`),
+ * lower-cased. ASS styling overrides count as the tag they stand for, so
+ * `{\b1}` is `b` and `{\c&H00FFFF&}` is `font`.
+ */
+export function markupTags(text: string) {
+  const overrides = [...text.matchAll(/\{(\\[^}]*)\}/g)]
+    .flatMap(match => match[1].match(OVERRIDE_PATTERN) ?? [])
+    .map(overrideTagName)
+    .filter((name): name is string => name !== null)
+  return [...new Set([...[...text.matchAll(TAG_PATTERN)].map(match => match[1].toLowerCase()), ...overrides])]
+}
+
+// Drops the tags `markupTags` reports that aren't allowed, leaving their text and any positioning overrides
+export function removeDisallowedTags(text: string, allowedTags: string[]) {
+  return text
+    .replace(TAG_PATTERN, (tag, name: string) => allowedTags.includes(name.toLowerCase()) ? tag : '')
+    .replace(/\{(\\[^}]*)\}/g, (_, block: string) => {
+      const kept = (block.match(OVERRIDE_PATTERN) ?? []).filter(tag => {
+        const name = overrideTagName(tag)
+        return name === null || allowedTags.includes(name)
+      })
+      return kept.length > 0 ? `{${kept.join('')}}` : ''
+    })
+}
+
+// Horizontal part of a numpad alignment: 1 = left, 2 = centre, 3 = right
+function alignmentColumn(alignment: number) {
+  return ((alignment - 1) % 3) + 1
+}
+
+/**
+ * Maps ASS positioning onto WebVTT cue settings. Top/middle rows become a
+ * `line`, left/right columns become `align`, and \pos becomes a percentage
+ * `position`/`line` pair relative to the script resolution.
+ */
+export function assPlacementToCueSettings(
+  converted: ConvertedCueText,
+  playRes?: { width: number; height: number }
+): CueSettings | undefined {
+  if (converted.position && playRes) {
+    const x = Math.round((converted.position.x / playRes.width) * 100)
+    const y = Math.round((converted.position.y / playRes.height) * 100)
+    return { line: `${y}%`, position: `${x}%` }
+  }
+
+  const alignment = converted.alignment
+  if (!alignment || alignment === 2) return undefined
+
+  const settings: CueSettings = {}
+  if (alignment >= 7) settings.line = '0'
+  else if (alignment >= 4) settings.line = '50%'
+
+  const column = alignmentColumn(alignment)
+  if (column === 1) settings.align = 'start'
+  else if (column === 3) settings.align = 'end'
+
+  return settings
+}
+
+// Reads PlayResX/PlayResY from the script info, with the ASS defaults
+export function assPlayResolution(metadata?: TrackMetadata) {
+  const lookup = (key: string) => {
+    const line = metadata?.ass?.scriptInfo.find(entry => entry.startsWith(`${key}:`))
+    return line ? Number(line.slice(key.length + 1).trim()) : NaN
+  }
+  const width = lookup('PlayResX')
+  const height = lookup('PlayResY')
+  return {
+    width: Number.isFinite(width) && width > 0 ? width : 384,
+    height: Number.isFinite(height) && height > 0 ? height : 288
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_QC_LIMITS, charactersPerSecond, runQualityChecks, visibleText, type QcLimits } from './qc'
+import type { Subtitle } from './types'
+
+const limits: QcLimits = { ...DEFAULT_QC_LIMITS, minDuration: 1, maxDuration: 7, minGap: 0.1 }
+
+const cue = (id: string, startTime: number, endTime: number, text = 'Fine') => ({ id, startTime, endTime, text })
+
+const rules = (subtitles: Subtitle[], mediaDuration?: number) =>
+  runQualityChecks(subtitles, limits, mediaDuration).map(issue => [issue.cueId, issue.rule])
+
+describe('quality checks', () => {
+  it('passes a clean track', () => {
+    expect(rules([cue('a', 0, 2), cue('b', 3, 5)])).toEqual([])
+  })
+
+  it('counts reading speed on visible characters only', () => {
+    expect(visibleText('<i>Hi</i> {\\an8}there\\Nyou')).toBe('Hi there\nyou')
+    expect(charactersPerSecond(cue('a', 0, 2, '<b>Hello</b>\nthere'))).toBe(5)
+    expect(rules([cue('a', 0, 1, 'Far too many words for one second')])).toEqual([['a', 'cps']])
+  })
+
+  it('flags long lines and too many lines', () => {
+    const long = 'x'.repeat(43)
+    expect(rules([cue('a', 0, 7, long)])).toEqual([['a', 'lineLength']])
+    expect(rules([cue('a', 0, 7, 'One\nTwo\nThree')])).toEqual([['a', 'lineCount']])
+  })
+
+  it('flags empty cues and durations outside the limits', () => {
+    expect(rules([cue('a', 0, 2, '<i> </i>')])).toEqual([['a', 'empty']])
+    expect(rules([cue('a', 0, 0.5, 'Hi')])).toEqual([['a', 'minDuration']])
+    expect(rules([cue('a', 0, 8, 'Hi')])).toEqual([['a', 'maxDuration']])
+  })
+
+  it('flags short gaps and overlaps in time order, whatever the track order', () => {
+    expect(rules([cue('b', 2.05, 4), cue('a', 0, 2)])).toEqual([['b', 'minGap']])
+    expect(rules([cue('a', 0, 2), cue('b', 1.5, 4)])).toEqual([['b', 'overlap']])
+  })
+
+  it('flags every cue a long cue overlaps, not just the next one', () => {
+    const issues = runQualityChecks([cue('long', 0, 6), cue('inside', 1, 2), cue('later', 4, 7)], limits)
+
+    expect(issues.map(issue => [issue.cueId, issue.rule])).toEqual([['inside', 'overlap'], ['later', 'overlap']])
+    expect(issues[1].message).toBe('Overlaps an earlier cue by 2s')
+  })
+
+  it('flags cues past the end of the audio and disallowed tags', () => {
+    expect(rules([cue('a', 0, 2)], 1.5)).toEqual([['a', 'pastDuration']])
+    expect(runQualityChecks([cue('a', 0, 2, '<b>Hi</b> <i>there</i>')], { ...limits, allowedTags: ['i'] }))
+      .toMatchObject([{ cueId: 'a', rule: 'tags', message: "Uses <b>, which the style guide doesn't allow" }])
+  })
+})
@@ -0,0 +1,142 @@
+import type { Subtitle } from './types'
+import { markupTags } from './markup'
+
+export interface QcLimits {
+  // Characters per second, counting spaces but not line breaks
+  maxCps: number
+  maxCharsPerLine: number
+  maxLines: number
+  minDuration: number
+  maxDuration: number
+  // Shortest allowed pause between consecutive cues, in seconds
+  minGap: number
+  // Lower-case markup tag names allowed in cue text; any tag passes when omitted
+  allowedTags?: string[]
+}
+
+export const DEFAULT_QC_LIMITS: QcLimits = {
+  maxCps: 17,
+  maxCharsPerLine: 42,
+  maxLines: 2,
+  minDuration: 5 / 6,
+  maxDuration: 7,
+  minGap: 2 / 24
+}
+
+export type QcRule =
+  | 'empty'
+  | 'cps'
+  | 'lineLength'
+  | 'lineCount'
+  | 'minDuration'
+  | 'maxDuration'
+  | 'minGap'
+  | 'overlap'
+  | 'pastDuration'
+  | 'tags'
+
+export interface QcIssue {
+  cueId: string
+  rule: QcRule
+  severity: 'error' | 'warning'
+  message: string
+}
+
+// Markup (HTML-style tags, ASS override blocks) takes no space on screen
+export function visibleText(text: string) {
+  return text
+    .replace(/<[^>]+>/g, '')
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/\\N/g, '\n')
+}
+
+export function visibleLines(text: string) {
+  return visibleText(text).split(/\r?\n/)
+}
+
+export function charactersPerSecond(subtitle: Subtitle) {
+  const duration = subtitle.endTime - subtitle.startTime
+  const characters = visibleLines(subtitle.text).join('').length
+  return duration > 0 ? characters / duration : Infinity
+}
+
+const format = (value: number, digits = 2) => Number(value.toFixed(digits)).toString()
+
+/**
+ * Checks every cue against the limits and returns the problems in cue order.
+ * Overlaps and gaps compare each cue with the latest end of the cues before
+ * it in time, so a long cue overlapping several later ones flags each of
+ * them, and a track that isn't sorted by start time is still checked correctly.
+ */
+export function runQualityChecks(
+  subtitles: Subtitle[],
+  limits: QcLimits = DEFAULT_QC_LIMITS,
+  mediaDuration?: number
+): QcIssue[] {
+  const issues: QcIssue[] = []
+  const ordered = [...subtitles].sort((a, b) => a.startTime - b.startTime)
+
+  // The latest end time of the cues checked so far
+  let previousEnd = -Infinity
+
+  ordered.forEach(cue => {
+    const add = (rule: QcRule, severity: QcIssue['severity'], message: string) => {
+      issues.push({ cueId: cue.id, rule, severity, message })
+    }
+    const duration = cue.endTime - cue.startTime
+    const lines = visibleLines(cue.text)
+
+    if (!lines.join('').trim()) {
+      add('empty', 'error', 'Cue has no text')
+    } else {
+      const cps = charactersPerSecond(cue)
+      if (cps > limits.maxCps) {
+        add('cps', 'warning', `Reading speed ${format(cps, 1)} CPS exceeds ${limits.maxCps}`)
+      }
+
+      const longest = Math.max(...lines.map(line => line.length))
+      if (longest > limits.maxCharsPerLine) {
+        add('lineLength', 'warning', `Line of ${longest} characters exceeds ${limits.maxCharsPerLine}`)
+      }
+
+      if (lines.length > limits.maxLines) {
+        add('lineCount', 'warning', `${lines.length} lines exceeds ${limits.maxLines}`)
+      }
+
+      const disallowed = limits.allowedTags
+        ? markupTags(cue.text).filter(tag => !limits.allowedTags?.includes(tag))
+        : []
+      if (disallowed.length > 0) {
+        add('tags', 'warning', `Uses ${disallowed.map(tag => `<${tag}>`).join(', ')}, which the style guide doesn't allow`)
+      }
+    }
+
+    if (duration < limits.minDuration) {
+      add('minDuration', 'warning', `Duration ${format(duration)}s is under ${format(limits.minDuration)}s`)
+    } else if (duration > limits.maxDuration) {
+      add('maxDuration', 'warning', `Duration ${format(duration)}s is over ${format(limits.maxDuration)}s`)
+    }
+
+    const gap = cue.startTime - previousEnd
+    if (gap < -0.0005) {
+      add('overlap', 'error', `Overlaps an earlier cue by ${format(-gap, 3)}s`)
+    } else if (gap < limits.minGap - 0.0005) {
+      add('minGap', 'warning', `Gap of ${format(gap, 3)}s after the previous cue is under ${format(limits.minGap, 3)}s`)
+    }
+    previousEnd = Math.max(previousEnd, cue.endTime)
+
+    if (mediaDuration && cue.endTime > mediaDuration + 0.0005) {
+      add('pastDuration', 'error', 'Cue ends after the audio does')
+    }
+  })
+
+  return issues
+}
+
+export function groupIssuesByCue(issues: QcIssue[]) {
+  const byCue = new Map<string, QcIssue[]>()
+  for (const issue of issues) {
+    byCue.set(issue.cueId, [...(byCue.get(issue.cueId) ?? []), issue])
+  }
+  return byCue
+}
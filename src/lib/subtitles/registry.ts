@@ -0,0 +1,50 @@
+import type { SerializeOptions, SubtitleFormat } from './types'
+import { srtFormat } from './srt'
+import { vttFormat } from './vtt'
+import { assFormat } from './ass'
+import { ttmlFormat } from './ttml'
+
+const formats = new Map<string, SubtitleFormat>()
+
+export function registerFormat<O extends SerializeOptions>(format: SubtitleFormat<O>) {
+  if (formats.has(format.id)) {
+    throw new Error(`Subtitle format "${format.id}" is already registered`)
+  }
+  formats.set(format.id, format as SubtitleFormat)
+}
+
+export function getFormat(id: string) {
+  return formats.get(id)
+}
+
+export function listFormats() {
+  return Array.from(formats.values())
+}
+
+export function getFormatByExtension(filename: string) {
+  const extension = filename.split('.').pop()?.toLowerCase() ?? ''
+  return listFormats().find(format => format.extensions.includes(extension))
+}
+
+// The accept attribute for file inputs, e.g. ".srt,.vtt"
+export function acceptedExtensions() {
+  return listFormats().flatMap(format => format.extensions.map(extension => `.${extension}`)).join(',')
+}
+
+/**
+ * Picks the format for a file from its content. The extension only breaks
+ * ties between formats whose sniffers all match, and is the fallback when
+ * none do, so a mislabelled `.txt` or `.xml` still imports correctly.
+ */
+export function detectFormat(text: string, filename?: string) {
+  const byExtension = filename ? getFormatByExtension(filename) : undefined
+  const matches = listFormats().filter(format => format.sniff(text))
+
+  if (matches.length === 0) return byExtension
+  return matches.find(format => format === byExtension) ?? matches[0]
+}
+
+registerFormat(srtFormat)
+registerFormat(vttFormat)
+registerFormat(assFormat)
+registerFormat(ttmlFormat)
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { frameRateMapping, mapCueTimes, shiftCues, twoPointMapping } from './resync'
+import { MIN_CUE_DURATION } from './edit'
+import type { Subtitle } from './types'
+
+const cues: Subtitle[] = [
+  { id: 'a', startTime: 1, endTime: 2, text: 'One' },
+  { id: 'b', startTime: 10, endTime: 12, text: 'Two' }
+]
+
+describe('resync', () => {
+  it('shifts every cue, or only the chosen ones', () => {
+    expect(shiftCues(cues, 1.5).map(cue => [cue.startTime, cue.endTime])).toEqual([[2.5, 3.5], [11.5, 13.5]])
+
+    const shifted = shiftCues(cues, 2, new Set(['b']))
+    expect(shifted[0]).toBe(cues[0])
+    expect(shifted[1]).toMatchObject({ startTime: 12, endTime: 14, text: 'Two' })
+  })
+
+  it('clamps at zero and keeps the minimum duration for cues pushed before the start', () => {
+    const [first, second] = shiftCues(cues, -5)
+
+    expect(first).toMatchObject({ startTime: 0, endTime: MIN_CUE_DURATION })
+    expect(second).toMatchObject({ startTime: 5, endTime: 7 })
+  })
+
+  it('scales and offsets cue times', () => {
+    const [, second] = mapCueTimes(cues, { scale: 2, offset: 1 })
+    expect(second).toMatchObject({ startTime: 21, endTime: 25 })
+  })
+
+  it('maps two reference points onto their targets', () => {
+    const mapping = twoPointMapping({ from: 10, to: 11 }, { from: 110, to: 121 })
+    expect(mapping).not.toBeNull()
+
+    const [first, second] = mapCueTimes(cues, mapping!)
+    expect(first.startTime).toBeCloseTo(1.1)
+    expect(second.startTime).toBeCloseTo(11)
+    expect(second.endTime).toBeCloseTo(13.2)
+  })
+
+  it('rejects reference points that coincide or reverse the order', () => {
+    expect(twoPointMapping({ from: 5, to: 6 }, { from: 5, to: 9 })).toBeNull()
+    expect(twoPointMapping({ from: 5, to: 9 }, { from: 10, to: 6 })).toBeNull()
+  })
+
+  it('stretches times for a frame rate conversion', () => {
+    const mapping = frameRateMapping(24000 / 1001, 25)
+    const [, second] = mapCueTimes(cues, mapping)
+
+    expect(mapping.offset).toBe(0)
+    expect(second.startTime).toBeCloseTo(10 * 24000 / 1001 / 25)
+    expect(second.startTime).toBeLessThan(10)
+  })
+})
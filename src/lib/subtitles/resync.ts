@@ -0,0 +1,65 @@
+import type { Subtitle } from './types'
+import { MIN_CUE_DURATION } from './edit'
+
+// new time = old time × scale + offset
+export interface LinearMapping {
+  scale: number
+  offset: number
+}
+
+export interface SyncPoint {
+  // Where the reference cue currently starts
+  from: number
+  // Where it should start
+  to: number
+}
+
+export const FRAME_RATE_CONVERSIONS: { label: string; from: number; to: number }[] = [
+  { label: '23.976 → 25 fps (PAL speed-up)', from: 24000 / 1001, to: 25 },
+  { label: '25 → 23.976 fps (PAL slow-down)', from: 25, to: 24000 / 1001 },
+  { label: '24 → 25 fps', from: 24, to: 25 },
+  { label: '25 → 24 fps', from: 25, to: 24 },
+  { label: '23.976 → 24 fps', from: 24000 / 1001, to: 24 },
+  { label: '24 → 23.976 fps', from: 24, to: 24000 / 1001 }
+]
+
+/**
+ * Applies a linear time mapping to the given cues (all of them when `ids`
+ * is omitted). Times are clamped at zero; a cue pushed entirely before the
+ * start keeps the minimum duration rather than vanishing.
+ */
+export function mapCueTimes(subtitles: Subtitle[], { scale, offset }: LinearMapping, ids?: Set<string>) {
+  return subtitles.map(sub => {
+    if (ids && !ids.has(sub.id)) return sub
+
+    const startTime = Math.max(0, sub.startTime * scale + offset)
+    const endTime = Math.max(startTime + MIN_CUE_DURATION, sub.endTime * scale + offset)
+    return { ...sub, startTime, endTime }
+  })
+}
+
+export function shiftCues(subtitles: Subtitle[], offset: number, ids?: Set<string>) {
+  return mapCueTimes(subtitles, { scale: 1, offset }, ids)
+}
+
+/**
+ * The mapping that moves two reference points to their correct times. A
+ * constant offset and a speed change (e.g. a frame rate conversion) are both
+ * special cases. Returns null when the points coincide.
+ */
+export function twoPointMapping(first: SyncPoint, second: SyncPoint): LinearMapping | null {
+  if (Math.abs(second.from - first.from) < 1e-6) return null
+
+  const scale = (second.to - first.to) / (second.from - first.from)
+  if (!Number.isFinite(scale) || scale <= 0) return null
+
+  return { scale, offset: first.to - first.from * scale }
+}
+
+/**
+ * Playing a film at a different frame rate changes its running time by
+ * `from / to`; subtitles timed against the original need the same stretch.
+ */
+export function frameRateMapping(from: number, to: number): LinearMapping {
+  return { scale: from / to, offset: 0 }
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import { parseSRT, serializeSRT } from './srt'
+import type { Subtitle } from './types'
+
+const cue = (startTime: number, endTime: number, text: string): Subtitle => ({
+  id: `cue-${startTime}`,
+  startTime,
+  endTime,
+  text
+})
+
+// Ids are random on parse, so compare what a round trip has to preserve
+const timing = (subtitles: Subtitle[]) => subtitles.map(({ startTime, endTime, text }) => ({ startTime, endTime, text }))
+
+describe('SRT', () => {
+  it('round-trips cues through serialize and parse', () => {
+    const cues = [cue(1, 2.5, 'Hello'), cue(3, 4.25, 'Two\nlines')]
+    const { subtitles, errors } = parseSRT(serializeSRT(cues))
+
+    expect(errors).toEqual([])
+    expect(timing(subtitles)).toEqual(timing(cues))
+  })
+
+  it('reads CRLF input and a BOM', () => {
+    const text = '\uFEFF1\r\n00:00:01,000 --> 00:00:02,000\r\nHello\r\nthere\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,000\r\nBye\r\n'
+    const { subtitles, errors } = parseSRT(text)
+
+    expect(errors).toEqual([])
+    expect(timing(subtitles)).toEqual([
+      { startTime: 1, endTime: 2, text: 'Hello\nthere' },
+      { startTime: 3, endTime: 4, text: 'Bye' }
+    ])
+  })
+
+  it('writes CRLF with a BOM when asked', () => {
+    const text = serializeSRT([cue(1, 2, 'Hello')], { lineEnding: 'crlf', bom: true })
+    expect(text).toBe('\uFEFF1\r\n00:00:01,000 --> 00:00:02,000\r\nHello\r\n\r\n')
+    expect(timing(parseSRT(text).subtitles)).toEqual([{ startTime: 1, endTime: 2, text: 'Hello' }])
+  })
+
+  it('renumbers cues in time order', () => {
+    const text = serializeSRT([cue(5, 6, 'Second'), cue(1, 2, 'First')])
+    expect(text.split('\n\n').map(block => block.split('\n')[0])).toEqual(['1', '2', ''])
+    expect(text.indexOf('First')).toBeLessThan(text.indexOf('Second'))
+  })
+
+  it('keeps hours of one and above', () => {
+    const text = serializeSRT([cue(3723.456, 3725, 'Late')])
+    expect(text).toContain('01:02:03,456 --> 01:02:05,000')
+    expect(timing(parseSRT(text).subtitles)).toEqual([{ startTime: 3723.456, endTime: 3725, text: 'Late' }])
+  })
+
+  it('reports invalid timings with their line', () => {
+    const { subtitles, errors } = parseSRT('1\n00:00:01,000 --> soon\nHello\n')
+    expect(subtitles).toEqual([])
+    expect(errors).toEqual([{ line: 2, message: 'Invalid timing "00:00:01,000 --> soon"' }])
+  })
+
+  it('reports cues that end before they start', () => {
+    const { subtitles, errors } = parseSRT('1\n00:00:01,000 --> 00:00:02,000\nOk\n\n2\n00:00:05,000 --> 00:00:04,000\nBackwards\n')
+    expect(timing(subtitles)).toEqual([{ startTime: 1, endTime: 2, text: 'Ok' }])
+    expect(errors).toEqual([{ line: 6, message: 'Cue ends before it starts' }])
+  })
+
+  it('keeps text after a single blank line inside a cue', () => {
+    const { subtitles, errors } = parseSRT('1\n00:00:01,000 --> 00:00:02,000\nFirst\n\nstill first\n\n2\n00:00:03,000 --> 00:00:04,000\nSecond\n')
+    expect(errors).toEqual([])
+    expect(subtitles.map(sub => sub.text)).toEqual(['First\nstill first', 'Second'])
+  })
+
+  it('reports blocks without a timing line instead of merging them into a cue', () => {
+    const { subtitles, errors } = parseSRT([
+      'stray text',
+      '',
+      '1',
+      '00:00:01,000 --> 00:00:02,000',
+      'First',
+      '',
+      '',
+      'after a gap',
+      '',
+      '2',
+      'Lost its timing',
+      '',
+      '3',
+      '00:00:05,000 --> soon',
+      'Bad',
+      '',
+      'after a bad cue',
+      ''
+    ].join('\n'))
+
+    expect(subtitles.map(sub => sub.text)).toEqual(['First'])
+    expect(errors).toEqual([
+      { line: 1, message: 'Block has no timing line' },
+      { line: 8, message: 'Block has no timing line' },
+      { line: 10, message: 'Block has no timing line' },
+      { line: 14, message: 'Invalid timing "00:00:05,000 --> soon"' },
+      { line: 17, message: 'Block has no timing line' }
+    ])
+  })
+})
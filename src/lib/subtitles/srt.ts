@@ -0,0 +1,140 @@
+import type { SerializeOptions, Subtitle, SubtitleFormat, SubtitleParseError, SubtitleParseResult } from './types'
+import { formatTimecode, parseTimecode } from './timecode'
+import { createSubtitleId } from './ids'
+import { assToHtml, findStyle, removeDisallowedTags } from './markup'
+
+export interface SrtSerializeOptions extends SerializeOptions {
+  lineEnding?: 'lf' | 'crlf'
+  bom?: boolean
+}
+
+const UTF8_BOM = '\uFEFF'
+
+export function formatSrtTimestamp(seconds: number) {
+  return formatTimecode(seconds, ',')
+}
+
+/**
+ * Writes cues as SubRip text. Cues are ordered by start time and renumbered
+ * from 1; blank lines inside cue text are dropped because SRT uses them as
+ * the block separator. ASS styling is reduced to <i>/<b>/<u>/<s>/<font> tags
+ * plus a leading `{\anN}` for non-default alignment.
+ */
+export function serializeSRT(subtitles: Subtitle[], options: SrtSerializeOptions = {}) {
+  const eol = options.lineEnding === 'crlf' ? '\r\n' : '\n'
+  const ordered = [...subtitles].sort((a, b) => a.startTime - b.startTime)
+
+  const blocks = ordered.map((subtitle, index) => {
+    const style = findStyle(options.metadata, subtitle.style)
+    const { text } = assToHtml(subtitle.text, style, { keepAlignmentTag: true, fontColours: true })
+    const lines = (options.allowedTags ? removeDisallowedTags(text, options.allowedTags) : text)
+      .split(/\r?\n/)
+      .filter(line => line.trim().length > 0)
+
+    return [
+      String(index + 1),
+      `${formatSrtTimestamp(subtitle.startTime)} --> ${formatSrtTimestamp(subtitle.endTime)}`,
+      ...lines
+    ].join(eol)
+  })
+
+  const body = blocks.map(block => block + eol + eol).join('')
+  return options.bom ? UTF8_BOM + body : body
+}
+
+const TIMING_LINE = /^\s*(\S+)\s*-->\s*(\S+)/
+
+/**
+ * Reads SubRip text. Tolerates a BOM, `.` as the millisecond separator,
+ * missing cue numbers and a single blank line inside cue text. Blocks that
+ * cannot be read are reported in `errors` rather than dropped silently.
+ */
+export function parseSRT(text: string): SubtitleParseResult {
+  const lines = text.replace(/\uFEFF/g, '').split(/\r\n|\r|\n/)
+  const subtitles: Subtitle[] = []
+  const errors: SubtitleParseError[] = []
+
+  // Group non-blank lines into blocks, remembering where each block starts
+  const blocks: { line: number; lines: string[] }[] = []
+  let current: { line: number; lines: string[] } | null = null
+  lines.forEach((line, index) => {
+    if (line.trim().length === 0) {
+      current = null
+      return
+    }
+    if (!current) {
+      current = { line: index + 1, lines: [] }
+      blocks.push(current)
+    }
+    current.lines.push(line)
+  })
+
+  // The cue the previous block went into; null after a block that couldn't be read
+  let previous: Subtitle | null = null
+  for (const [blockIndex, block] of blocks.entries()) {
+    const timingIndex = block.lines.findIndex(line => line.includes('-->'))
+
+    if (timingIndex === -1) {
+      // A single blank line inside cue text splits the cue; glue it back on. A block that opens with
+      // a cue number has lost its timing line, and text after a wider gap is corrupt, not a continuation.
+      const before = blocks[blockIndex - 1]
+      const followsDirectly = before && block.line === before.line + before.lines.length + 1
+      if (previous && followsDirectly && !/^\d+$/.test(block.lines[0].trim())) {
+        previous.text += '\n' + block.lines.join('\n')
+      } else {
+        errors.push({ line: block.line, message: 'Block has no timing line' })
+        previous = null
+      }
+      continue
+    }
+
+    if (timingIndex > 1 || (timingIndex === 1 && !/^\d+$/.test(block.lines[0].trim()))) {
+      errors.push({ line: block.line, message: 'Unexpected text before timing line' })
+      previous = null
+      continue
+    }
+
+    const timingLine = block.line + timingIndex
+    const match = TIMING_LINE.exec(block.lines[timingIndex])
+    const startTime = match ? parseTimecode(match[1]) : null
+    const endTime = match ? parseTimecode(match[2]) : null
+
+    if (startTime === null || endTime === null) {
+      errors.push({ line: timingLine, message: `Invalid timing "${block.lines[timingIndex].trim()}"` })
+      previous = null
+      continue
+    }
+    if (endTime < startTime) {
+      errors.push({ line: timingLine, message: 'Cue ends before it starts' })
+      previous = null
+      continue
+    }
+
+    previous = {
+      id: createSubtitleId(),
+      startTime,
+      endTime,
+      text: block.lines.slice(timingIndex + 1).join('\n')
+    }
+    subtitles.push(previous)
+  }
+
+  return { subtitles, errors }
+}
+
+export const srtFormat: SubtitleFormat<SrtSerializeOptions> = {
+  id: 'srt',
+  name: 'SubRip',
+  extensions: ['srt'],
+  mimeType: 'application/x-subrip',
+  sniff: text => !/^\uFEFF?WEBVTT/.test(text) && /^\s*(?:\d+\s*\r?\n)?[\d:]+[,.]\d+\s*-->\s*[\d:]+[,.]\d+/m.test(text),
+  parse: parseSRT,
+  serialize: serializeSRT,
+  // CRLF keeps Windows-based video editors happy; every other reader accepts it too
+  defaultOptions: { lineEnding: 'crlf' },
+  variants: [
+    { label: 'Windows (CRLF)', options: { lineEnding: 'crlf' } },
+    { label: 'Unix (LF)', options: { lineEnding: 'lf' } },
+    { label: 'CRLF with UTF-8 BOM', options: { lineEnding: 'crlf', bom: true } }
+  ]
+}
@@ -0,0 +1,42 @@
+interface TimecodeParts {
+  hours: number
+  minutes: number
+  seconds: number
+  milliseconds: number
+}
+
+// Round to whole milliseconds first so 59.9996 becomes 01:00.000 instead of 00:59.1000
+export function splitTimecode(seconds: number): TimecodeParts {
+  const totalMs = Math.max(0, Math.round(seconds * 1000))
+  return {
+    hours: Math.floor(totalMs / 3_600_000),
+    minutes: Math.floor(totalMs / 60_000) % 60,
+    seconds: Math.floor(totalMs / 1000) % 60,
+    milliseconds: totalMs % 1000
+  }
+}
+
+export function formatTimecode(seconds: number, msSeparator: ',' | '.') {
+  const parts = splitTimecode(seconds)
+  const hh = parts.hours.toString().padStart(2, '0')
+  const mm = parts.minutes.toString().padStart(2, '0')
+  const ss = parts.seconds.toString().padStart(2, '0')
+  const mmm = parts.milliseconds.toString().padStart(3, '0')
+  return `${hh}:${mm}:${ss}${msSeparator}${mmm}`
+}
+
+const TIMECODE_PATTERN = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[,.](\d{1,3}))?$/
+
+// Accepts HH:MM:SS,mmm as well as the MM:SS.mmm shorthand some tools write
+export function parseTimecode(text: string): number | null {
+  const match = TIMECODE_PATTERN.exec(text.trim())
+  if (!match) return null
+
+  const hours = parseInt(match[1] ?? '0', 10)
+  const minutes = parseInt(match[2], 10)
+  const seconds = parseInt(match[3], 10)
+  const milliseconds = parseInt((match[4] ?? '0').padEnd(3, '0'), 10)
+  if (minutes > 59 || seconds > 59) return null
+
+  return hours * 3600 + minutes * 60 + seconds + milliseconds / 1000
+}
@@ -0,0 +1,71 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import { parseTTML, parseTtmlTime, serializeTTML, validateTTML } from './ttml'
+import type { Subtitle } from './types'
+
+const cues: Subtitle[] = [
+  { id: 'a', startTime: 1, endTime: 2.5, text: '<i>Hello</i>\nthere' },
+  { id: 'b', startTime: 3723.5, endTime: 3725, text: 'Top', settings: { line: '0' } }
+]
+
+const timing = (subtitles: Subtitle[]) => subtitles.map(({ startTime, endTime, text }) => ({ startTime, endTime, text }))
+
+const context = { timeBase: 'media', frameRate: 25, subFrameRate: 1, tickRate: 25 }
+
+describe('TTML', () => {
+  it('round-trips cues, markup and top placement', () => {
+    const { subtitles, errors } = parseTTML(serializeTTML(cues, { language: 'en' }))
+
+    expect(errors).toEqual([])
+    expect(timing(subtitles)).toEqual(timing(cues))
+    expect(subtitles[1].settings).toEqual({ line: '0' })
+  })
+
+  it('writes frame-based times, rounded to the nearest frame', () => {
+    const xml = serializeTTML(cues, { timeBase: 'frames', frameRate: 25 })
+    expect(xml).toContain('ttp:frameRate="25"')
+    expect(xml).toContain('begin="01:02:03:13"')
+
+    const [first] = parseTTML(xml).subtitles
+    expect(first.startTime).toBe(1)
+    expect(first.endTime).toBeCloseTo(2.52)
+  })
+
+  it('produces a document that passes validation', () => {
+    expect(validateTTML(serializeTTML(cues, { language: 'de' }))).toEqual([])
+  })
+
+  it('writes an empty xml:lang when the language is unknown', () => {
+    const xml = serializeTTML(cues)
+    expect(xml).toContain('xml:lang=""')
+    expect(validateTTML(xml).map(issue => issue.severity)).toEqual(['warning'])
+  })
+
+  it('parses clock and offset time expressions', () => {
+    expect(parseTtmlTime('00:01:02.5', context)).toBe(62.5)
+    expect(parseTtmlTime('00:00:01:05', context)).toBe(1.2)
+    expect(parseTtmlTime('1500ms', context)).toBe(1.5)
+    expect(parseTtmlTime('50f', context)).toBe(2)
+    expect(parseTtmlTime('00:61:00', context)).toBeNull()
+  })
+
+  it('reports bad paragraphs with their source line', () => {
+    const xml = [
+      '<tt xmlns="http://www.w3.org/ns/ttml" xml:lang="en">',
+      '  <body><div>',
+      '    <!-- <p> in a comment -->',
+      '    <p begin="00:00:01.000" end="00:00:02.000">Ok</p>',
+      '    <p begin="soon" end="00:00:02.000">Bad</p>',
+      '    <p xml:id="back" begin="00:00:05.000" end="00:00:04.000">Backwards</p>',
+      '  </div></body>',
+      '</tt>'
+    ].join('\n')
+    const { subtitles, errors } = parseTTML(xml)
+
+    expect(timing(subtitles)).toEqual([{ startTime: 1, endTime: 2, text: 'Ok' }])
+    expect(errors).toEqual([
+      { line: 5, message: 'Paragraph #2 has missing or invalid timing' },
+      { line: 6, message: 'Paragraph back ends before it starts' }
+    ])
+  })
+})
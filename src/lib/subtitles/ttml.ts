@@ -0,0 +1,550 @@
+import type {
+  CueSettings,
+  FormatValidationIssue,
+  SerializeOptions,
+  Subtitle,
+  SubtitleFormat,
+  SubtitleParseError,
+  SubtitleParseResult,
+  SubtitleStyle,
+  TrackMetadata
+} from './types'
+import { splitTimecode } from './timecode'
+import { createSubtitleId } from './ids'
+import { assToHtml, findStyle, removeDisallowedTags } from './markup'
+
+const TT_NS = 'http://www.w3.org/ns/ttml'
+const TTP_NS = 'http://www.w3.org/ns/ttml#parameter'
+const TTS_NS = 'http://www.w3.org/ns/ttml#styling'
+const XML_NS = 'http://www.w3.org/XML/1998/namespace'
+const IMSC1_TEXT_PROFILE = 'http://www.w3.org/ns/ttml/profile/imsc1/text'
+
+const TTML_FRAME_RATES = [23.976, 24, 25, 29.97, 30, 50, 59.94, 60]
+
+export interface TtmlSerializeOptions extends SerializeOptions {
+  // 'media' writes clock times with milliseconds, 'frames' writes HH:MM:SS:FF
+  timeBase?: 'media' | 'frames'
+}
+
+interface FrameRate {
+  // Integer ttp:frameRate plus the multiplier that turns 24 into 23.976, etc.
+  base: number
+  numerator: number
+  denominator: number
+  effective: number
+}
+
+function resolveFrameRate(rate: number): FrameRate {
+  const rounded = Math.round(rate)
+  const isNtsc = Math.abs(rate - rounded) > 0.001
+  return {
+    base: rounded,
+    numerator: isNtsc ? 1000 : 1,
+    denominator: isNtsc ? 1001 : 1,
+    effective: isNtsc ? (rounded * 1000) / 1001 : rounded
+  }
+}
+
+function pad(value: number, length = 2) {
+  return value.toString().padStart(length, '0')
+}
+
+function formatClockTime(seconds: number) {
+  const parts = splitTimecode(seconds)
+  return `${pad(parts.hours)}:${pad(parts.minutes)}:${pad(parts.seconds)}.${pad(parts.milliseconds, 3)}`
+}
+
+// In the media time base HH:MM:SS are real seconds and FF counts frames at the effective rate
+function formatFrameTime(seconds: number, frameRate: FrameRate) {
+  let totalSeconds = Math.floor(Math.max(0, seconds))
+  let frames = Math.round((Math.max(0, seconds) - totalSeconds) * frameRate.effective)
+  if (frames >= frameRate.effective) {
+    totalSeconds += 1
+    frames = 0
+  }
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor(totalSeconds / 60) % 60
+  return `${pad(hours)}:${pad(minutes)}:${pad(totalSeconds % 60)}:${pad(frames)}`
+}
+
+function escapeXml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function styleId(name: string) {
+  return 'style_' + name.replace(/[^A-Za-z0-9_.-]/g, '_')
+}
+
+function assColourToCss(colour: string) {
+  const hex = colour.replace(/^&H/i, '').replace(/&$/, '').padStart(8, '0')
+  const alpha = 255 - parseInt(hex.slice(0, 2), 16)
+  const [bb, gg, rr] = [hex.slice(2, 4), hex.slice(4, 6), hex.slice(6, 8)]
+  return `#${rr}${gg}${bb}${alpha.toString(16).padStart(2, '0')}`.toLowerCase()
+}
+
+function formatStyle(style: SubtitleStyle) {
+  const attributes = [
+    `xml:id="${styleId(style.name)}"`,
+    `tts:fontFamily="${escapeXml(style.fontName)}"`,
+    `tts:color="${assColourToCss(style.primaryColour)}"`
+  ]
+  if (style.bold) attributes.push('tts:fontWeight="bold"')
+  if (style.italic) attributes.push('tts:fontStyle="italic"')
+  if (style.underline) attributes.push('tts:textDecoration="underline"')
+  return `      <style ${attributes.join(' ')}/>`
+}
+
+/**
+ * Turns the SRT-style markup produced by `assToHtml` into TTML spans.
+ * Unknown tags are dropped, unclosed spans are closed at the end of the cue.
+ */
+function htmlToTtml(text: string) {
+  const tagAttributes: Record<string, string> = {
+    i: 'tts:fontStyle="italic"',
+    b: 'tts:fontWeight="bold"',
+    u: 'tts:textDecoration="underline"',
+    s: 'tts:textDecoration="lineThrough"'
+  }
+  let output = ''
+  let depth = 0
+
+  for (const part of text.split(/(<[^>]+>|\n)/)) {
+    if (part === '\n') {
+      output += '<br/>'
+      continue
+    }
+    const tag = /^<(\/?)([a-z]+)([^>]*)>$/i.exec(part)
+    if (!tag) {
+      output += escapeXml(part)
+      continue
+    }
+
+    const [, closing, name, rest] = tag
+    const lower = name.toLowerCase()
+    if (closing) {
+      if ((tagAttributes[lower] || lower === 'font') && depth > 0) {
+        output += '</span>'
+        depth--
+      }
+    } else if (tagAttributes[lower]) {
+      output += `<span ${tagAttributes[lower]}>`
+      depth++
+    } else if (lower === 'font') {
+      const colour = /color="?(#[0-9a-f]{6})"?/i.exec(rest)
+      output += colour ? `<span tts:color="${colour[1].toLowerCase()}">` : '<span>'
+      depth++
+    }
+  }
+  return output + '</span>'.repeat(depth)
+}
+
+function cuePlacement(settings: CueSettings | undefined, alignment: number | undefined) {
+  let region = 'bottom'
+  let textAlign: string | undefined
+
+  if (alignment) {
+    if (alignment >= 7) region = 'top'
+    const column = ((alignment - 1) % 3) + 1
+    if (column === 1) textAlign = 'start'
+    if (column === 3) textAlign = 'end'
+  }
+  if (settings?.line !== undefined) {
+    const line = parseFloat(settings.line)
+    const isTop = settings.line.endsWith('%') ? line < 50 : line >= 0 && line < 5
+    region = isTop ? 'top' : 'bottom'
+  }
+  if (settings?.align === 'start' || settings?.align === 'left') textAlign = 'start'
+  if (settings?.align === 'end' || settings?.align === 'right') textAlign = 'end'
+
+  return { region, textAlign }
+}
+
+/**
+ * Writes an IMSC1 Text profile TTML document. Cues go into a `top` or
+ * `bottom` region depending on their alignment, ASS styles become TTML
+ * styles, and inline markup becomes `tts:` styled spans.
+ */
+export function serializeTTML(subtitles: Subtitle[], options: TtmlSerializeOptions = {}) {
+  const metadata: TrackMetadata = options.metadata ?? {}
+  const timeBase = options.timeBase ?? 'media'
+  const frameRate = resolveFrameRate(options.frameRate ?? 25)
+  const formatTime = (seconds: number) =>
+    timeBase === 'frames' ? formatFrameTime(seconds, frameRate) : formatClockTime(seconds)
+
+  const ordered = [...subtitles].sort((a, b) => a.startTime - b.startTime)
+  const styles = metadata.styles ?? []
+
+  const rootAttributes = [
+    `xmlns="${TT_NS}"`,
+    `xmlns:ttp="${TTP_NS}"`,
+    `xmlns:tts="${TTS_NS}"`,
+    // An empty xml:lang is how TTML says the language is unknown
+    `xml:lang="${escapeXml(options.language ?? '')}"`,
+    'ttp:timeBase="media"',
+    `ttp:profile="${IMSC1_TEXT_PROFILE}"`
+  ]
+  if (timeBase === 'frames') {
+    rootAttributes.push(`ttp:frameRate="${frameRate.base}"`)
+    if (frameRate.denominator !== 1) {
+      rootAttributes.push(`ttp:frameRateMultiplier="${frameRate.numerator} ${frameRate.denominator}"`)
+    }
+  }
+
+  // Cue identifiers become xml:ids when they are valid NCNames and don't clash
+  const usedIds = new Set(['default', 'top', 'bottom', ...styles.map(style => styleId(style.name))])
+  const paragraphId = (subtitle: Subtitle, index: number) => {
+    const candidate = subtitle.identifier && /^[A-Za-z_][\w.-]*$/.test(subtitle.identifier)
+      ? subtitle.identifier
+      : `cue${index + 1}`
+    const id = usedIds.has(candidate) ? `cue${index + 1}_${usedIds.size}` : candidate
+    usedIds.add(id)
+    return id
+  }
+
+  const paragraphs = ordered.map((subtitle, index) => {
+    const style = findStyle(metadata, subtitle.style)
+    const converted = assToHtml(subtitle.text, style, { fontColours: true })
+    const { region, textAlign } = cuePlacement(subtitle.settings, converted.alignment)
+
+    const attributes = [
+      `xml:id="${paragraphId(subtitle, index)}"`,
+      `begin="${formatTime(subtitle.startTime)}"`,
+      `end="${formatTime(subtitle.endTime)}"`,
+      `region="${region}"`
+    ]
+    if (subtitle.style && styles.some(entry => entry.name === subtitle.style)) {
+      attributes.push(`style="${styleId(subtitle.style)}"`)
+    }
+    if (textAlign) attributes.push(`tts:textAlign="${textAlign}"`)
+
+    const text = options.allowedTags ? removeDisallowedTags(converted.text, options.allowedTags) : converted.text
+    const body = htmlToTtml(text.split(/\r?\n/).filter(line => line.trim()).join('\n'))
+    return `      <p ${attributes.join(' ')}>${body}</p>`
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt ${rootAttributes.join(' ')}>`,
+    '  <head>',
+    '    <styling>',
+    '      <style xml:id="default" tts:fontFamily="proportionalSansSerif" tts:color="white" tts:backgroundColor="#000000c2" tts:textAlign="center"/>',
+    ...styles.map(formatStyle),
+    '    </styling>',
+    '    <layout>',
+    '      <region xml:id="bottom" tts:origin="10% 10%" tts:extent="80% 80%" tts:displayAlign="after"/>',
+    '      <region xml:id="top" tts:origin="10% 10%" tts:extent="80% 80%" tts:displayAlign="before"/>',
+    '    </layout>',
+    '  </head>',
+    '  <body style="default">',
+    '    <div>',
+    ...paragraphs,
+    '    </div>',
+    '  </body>',
+    '</tt>',
+    ''
+  ].join('\n')
+}
+
+interface TimingContext {
+  timeBase: string
+  frameRate: number
+  subFrameRate: number
+  tickRate: number
+}
+
+function readTimingContext(root: Element): TimingContext {
+  const frameRateBase = Number(root.getAttributeNS(TTP_NS, 'frameRate')) || 30
+  const multiplier = (root.getAttributeNS(TTP_NS, 'frameRateMultiplier') ?? '').split(/\s+/).map(Number)
+  const frameRate = multiplier.length === 2 && multiplier[0] > 0 && multiplier[1] > 0
+    ? (frameRateBase * multiplier[0]) / multiplier[1]
+    : frameRateBase
+  return {
+    timeBase: root.getAttributeNS(TTP_NS, 'timeBase') || 'media',
+    frameRate,
+    subFrameRate: Number(root.getAttributeNS(TTP_NS, 'subFrameRate')) || 1,
+    tickRate: Number(root.getAttributeNS(TTP_NS, 'tickRate')) || frameRate
+  }
+}
+
+const CLOCK_TIME = /^(\d{2,}):(\d{2}):(\d{2})(?:(\.\d+)|:(\d{2,})(?:\.(\d+))?)?$/
+const OFFSET_TIME = /^(\d+(?:\.\d+)?)(h|m|s|ms|f|t)$/
+
+// Parses a TTML time expression to seconds, or null if it is not one
+export function parseTtmlTime(value: string, context: TimingContext): number | null {
+  const text = value.trim()
+  const clock = CLOCK_TIME.exec(text)
+  if (clock) {
+    const [, hh, mm, ss, fraction, frames, subFrames] = clock
+    let seconds = Number(hh) * 3600 + Number(mm) * 60 + Number(ss)
+    if (Number(mm) > 59 || Number(ss) > 60) return null
+    if (fraction) seconds += Number(fraction)
+    if (frames) {
+      const frameCount = Number(frames) + (subFrames ? Number(subFrames) / context.subFrameRate : 0)
+      if (Number(frames) >= Math.ceil(context.frameRate)) return null
+      seconds += frameCount / context.frameRate
+    }
+    return seconds
+  }
+
+  const offset = OFFSET_TIME.exec(text)
+  if (!offset) return null
+  const amount = Number(offset[1])
+  switch (offset[2]) {
+    case 'h': return amount * 3600
+    case 'm': return amount * 60
+    case 's': return amount
+    case 'ms': return amount / 1000
+    case 'f': return amount / context.frameRate
+    case 't': return amount / context.tickRate
+  }
+  return null
+}
+
+function ttmlChildren(element: Element, localName: string) {
+  return Array.from(element.getElementsByTagNameNS(TT_NS, localName))
+}
+
+function readInlineText(node: Node): string {
+  let text = ''
+  node.childNodes.forEach(child => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      text += (child.textContent ?? '').replace(/\s+/g, ' ')
+      return
+    }
+    if (child.nodeType !== Node.ELEMENT_NODE) return
+
+    const element = child as Element
+    if (element.localName === 'br') {
+      text += '\n'
+      return
+    }
+
+    const inner = readInlineText(element)
+    if (element.localName !== 'span') {
+      text += inner
+      return
+    }
+
+    let wrapped = inner
+    const colour = element.getAttributeNS(TTS_NS, 'color')
+    if (colour && /^#[0-9a-f]{6}/i.test(colour)) wrapped = `<font color="${colour.slice(0, 7)}">${wrapped}</font>`
+    if (element.getAttributeNS(TTS_NS, 'textDecoration') === 'underline') wrapped = `<u>${wrapped}</u>`
+    if (element.getAttributeNS(TTS_NS, 'fontWeight') === 'bold') wrapped = `<b>${wrapped}</b>`
+    if (element.getAttributeNS(TTS_NS, 'fontStyle') === 'italic') wrapped = `<i>${wrapped}</i>`
+    text += wrapped
+  })
+  return text
+}
+
+function readTopRegions(doc: Document) {
+  const topRegions = new Set<string>()
+  for (const region of ttmlChildren(doc.documentElement, 'region')) {
+    const id = region.getAttributeNS(XML_NS, 'id')
+    if (!id) continue
+    const originY = parseFloat((region.getAttributeNS(TTS_NS, 'origin') ?? '').split(/\s+/)[1] ?? '')
+    const displayAlign = region.getAttributeNS(TTS_NS, 'displayAlign')
+    if (displayAlign === 'before' || (Number.isFinite(originY) && originY < 40 && displayAlign !== 'after')) {
+      topRegions.add(id)
+    }
+  }
+  return topRegions
+}
+
+function inheritedAttribute(element: Element, name: string) {
+  for (let node: Element | null = element; node; node = node.parentElement) {
+    const value = node.getAttribute(name)
+    if (value) return value
+  }
+  return null
+}
+
+// Source line of each <p> start tag in document order; comments are blanked so a `<p` inside one isn't counted
+function paragraphLines(text: string) {
+  const source = text.replace(/<!--[^]*?-->/g, comment => comment.replace(/[^\n]/g, ' '))
+  const lines: number[] = []
+  let line = 1
+  let position = 0
+  for (const match of source.matchAll(/<(?:[\w.-]+:)?p[\s/>]/g)) {
+    for (; position < match.index; position++) {
+      if (source[position] === '\n') line++
+    }
+    lines.push(line)
+  }
+  return lines
+}
+
+/**
+ * Reads TTML, DFXP and IMSC1 documents. Times on `div`/`body` ancestors are
+ * added to their paragraphs, `<br/>` becomes a line break, and styled spans
+ * become SRT-style markup.
+ */
+export function parseTTML(text: string): SubtitleParseResult {
+  const subtitles: Subtitle[] = []
+  const errors: SubtitleParseError[] = []
+
+  const doc = new DOMParser().parseFromString(text.replace(/^\uFEFF/, ''), 'application/xml')
+  const parseError = doc.getElementsByTagName('parsererror')[0]
+  if (parseError || doc.documentElement.localName !== 'tt') {
+    errors.push({ line: 1, message: parseError ? 'Document is not well-formed XML' : 'Root element is not <tt>' })
+    return { subtitles, errors }
+  }
+
+  const context = readTimingContext(doc.documentElement)
+  const topRegions = readTopRegions(doc)
+  const paragraphs = ttmlChildren(doc.documentElement, 'p')
+  const sourceLines = paragraphLines(text)
+  // If the scan and the parser disagree (a `<p` in CDATA, say), point at the document rather than a wrong line
+  const lineOf = (index: number) => (sourceLines.length === paragraphs.length ? sourceLines[index] : 1)
+
+  paragraphs.forEach((p, index) => {
+    const label = p.getAttributeNS(XML_NS, 'id') ?? `#${index + 1}`
+
+    let offset = 0
+    for (let parent = p.parentElement; parent && parent.localName !== 'tt'; parent = parent.parentElement) {
+      const begin = parent.getAttribute('begin')
+      if (begin) offset += parseTtmlTime(begin, context) ?? 0
+    }
+
+    const begin = parseTtmlTime(p.getAttribute('begin') ?? '', context)
+    const endAttribute = p.getAttribute('end')
+    const durAttribute = p.getAttribute('dur')
+    const end = endAttribute ? parseTtmlTime(endAttribute, context) : null
+    const dur = durAttribute ? parseTtmlTime(durAttribute, context) : null
+
+    if (begin === null || (end === null && dur === null)) {
+      errors.push({ line: lineOf(index), message: `Paragraph ${label} has missing or invalid timing` })
+      return
+    }
+
+    const startTime = offset + begin
+    const endTime = end !== null ? offset + end : startTime + (dur ?? 0)
+    if (endTime < startTime) {
+      errors.push({ line: lineOf(index), message: `Paragraph ${label} ends before it starts` })
+      return
+    }
+
+    const subtitle: Subtitle = {
+      id: createSubtitleId(),
+      startTime,
+      endTime,
+      text: readInlineText(p).split('\n').map(line => line.trim()).join('\n').trim()
+    }
+    const xmlId = p.getAttributeNS(XML_NS, 'id')
+    if (xmlId) subtitle.identifier = xmlId
+
+    const region = inheritedAttribute(p, 'region')
+    if (region && topRegions.has(region)) subtitle.settings = { line: '0' }
+
+    subtitles.push(subtitle)
+  })
+
+  return { subtitles, errors }
+}
+
+const ALLOWED_ELEMENTS = new Set(['tt', 'head', 'body', 'div', 'p', 'span', 'br', 'styling', 'style', 'layout', 'region', 'metadata'])
+
+/**
+ * Checks a TTML document against the structural rules of the IMSC1 Text
+ * profile that downstream ingest most often rejects: namespaces, required
+ * root attributes, media time base, resolvable references, unique ids and
+ * well-formed, ordered time expressions.
+ */
+export function validateTTML(xml: string): FormatValidationIssue[] {
+  const issues: FormatValidationIssue[] = []
+  const error = (message: string) => issues.push({ severity: 'error', message })
+  const warning = (message: string) => issues.push({ severity: 'warning', message })
+
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    error('Document is not well-formed XML')
+    return issues
+  }
+
+  const root = doc.documentElement
+  if (root.localName !== 'tt' || root.namespaceURI !== TT_NS) {
+    error(`Root element must be <tt> in the ${TT_NS} namespace`)
+    return issues
+  }
+  if (!root.hasAttributeNS(XML_NS, 'lang')) error('<tt> is missing the required xml:lang attribute')
+  else if (!root.getAttributeNS(XML_NS, 'lang')) warning('xml:lang is empty, so the document does not declare its language')
+
+  const profile = root.getAttributeNS(TTP_NS, 'profile') ?? root.getAttributeNS(TTP_NS, 'contentProfiles')
+  if (!profile) warning('No ttp:profile declared; IMSC1 delivery expects the text profile designator')
+
+  const context = readTimingContext(root)
+  if (context.timeBase !== 'media') error(`ttp:timeBase "${context.timeBase}" is not allowed in IMSC1; use "media"`)
+
+  const ids = new Set<string>()
+  const all = Array.from(root.getElementsByTagName('*'))
+  for (const element of all) {
+    if (element.namespaceURI === TT_NS && !ALLOWED_ELEMENTS.has(element.localName)) {
+      error(`Element <${element.localName}> is not part of the IMSC1 Text profile`)
+    }
+    const id = element.getAttributeNS(XML_NS, 'id')
+    if (id) {
+      if (ids.has(id)) error(`Duplicate xml:id "${id}"`)
+      ids.add(id)
+    }
+  }
+
+  const regionIds = new Set(ttmlChildren(root, 'region').map(region => region.getAttributeNS(XML_NS, 'id')))
+  const styleIds = new Set(ttmlChildren(root, 'style').map(style => style.getAttributeNS(XML_NS, 'id')))
+
+  for (const element of all) {
+    const region = element.getAttribute('region')
+    if (region && !regionIds.has(region)) error(`<${element.localName}> references unknown region "${region}"`)
+    for (const style of (element.getAttribute('style') ?? '').split(/\s+/).filter(Boolean)) {
+      if (!styleIds.has(style)) error(`<${element.localName}> references unknown style "${style}"`)
+    }
+  }
+
+  const paragraphs = ttmlChildren(root, 'p')
+  if (paragraphs.length === 0) warning('Document contains no subtitles')
+
+  const usesFrames = paragraphs.some(p => /:\d{2}:\d{2}:\d{2}|\d+f$/.test(`${p.getAttribute('begin')} ${p.getAttribute('end')}`))
+  if (usesFrames && !root.getAttributeNS(TTP_NS, 'frameRate')) {
+    error('Frame-based time expressions require ttp:frameRate on <tt>')
+  }
+
+  paragraphs.forEach((p, index) => {
+    const label = p.getAttributeNS(XML_NS, 'id') ?? `#${index + 1}`
+    const beginValue = p.getAttribute('begin')
+    const endValue = p.getAttribute('end') ?? p.getAttribute('dur')
+    if (!beginValue || !endValue) {
+      error(`Paragraph ${label} needs both begin and end (or dur)`)
+      return
+    }
+    const begin = parseTtmlTime(beginValue, context)
+    const end = parseTtmlTime(endValue, context)
+    if (begin === null) error(`Paragraph ${label} has an invalid begin "${beginValue}"`)
+    if (end === null) error(`Paragraph ${label} has an invalid end "${endValue}"`)
+    if (begin !== null && end !== null && p.hasAttribute('end') && end <= begin) {
+      error(`Paragraph ${label} ends at or before its begin time`)
+    }
+    if (!(p.textContent ?? '').trim()) warning(`Paragraph ${label} is empty`)
+  })
+
+  return issues
+}
+
+export const ttmlFormat: SubtitleFormat<TtmlSerializeOptions> = {
+  id: 'ttml',
+  name: 'TTML / IMSC1',
+  extensions: ['ttml', 'dfxp', 'xml'],
+  mimeType: 'application/ttml+xml',
+  sniff: text => /<tt[\s>][^]*http:\/\/www\.w3\.org\/ns\/ttml/.test(text.slice(0, 4096)),
+  parse: parseTTML,
+  serialize: serializeTTML,
+  variants: [
+    { label: 'Media time', options: { timeBase: 'media' } },
+    ...TTML_FRAME_RATES.map(frameRate => ({
+      label: `${frameRate} fps frames`,
+      options: { timeBase: 'frames' as const, frameRate }
+    }))
+  ],
+  validate: validateTTML
+}
@@ -0,0 +1,145 @@
+/**
+ * WebVTT cue settings, kept as the raw values from the file (e.g. `line: '85%'`,
+ * `position: '10%,line-left'`) so they are written back exactly as read.
+ */
+export interface CueSettings {
+  vertical?: string
+  line?: string
+  position?: string
+  size?: string
+  align?: string
+  region?: string
+}
+
+export interface Subtitle {
+  id: string
+  startTime: number
+  endTime: number
+  text: string
+  // Cue identifier from the source file, distinct from the editor's own id
+  identifier?: string
+  settings?: CueSettings
+  // Name of an entry in the track's style table
+  style?: string
+  // Id of an entry in the project's speaker list
+  speaker?: string
+  ass?: AssCueFields
+}
+
+// Dialogue fields from an ASS event line that have no counterpart in other formats
+export interface AssCueFields {
+  layer: number
+  actor: string
+  marginL: number
+  marginR: number
+  marginV: number
+  effect: string
+}
+
+/**
+ * A named style as defined by the ASS `[V4+ Styles]` section. Colours are
+ * kept in ASS `&HAABBGGRR` notation; alignment uses numpad positions (1-9).
+ */
+export interface SubtitleStyle {
+  name: string
+  fontName: string
+  fontSize: number
+  primaryColour: string
+  secondaryColour: string
+  outlineColour: string
+  backColour: string
+  bold: boolean
+  italic: boolean
+  underline: boolean
+  strikeOut: boolean
+  scaleX: number
+  scaleY: number
+  spacing: number
+  angle: number
+  borderStyle: number
+  outline: number
+  shadow: number
+  alignment: number
+  marginL: number
+  marginR: number
+  marginV: number
+  encoding: number
+}
+
+export interface SubtitleParseError {
+  line: number
+  message: string
+}
+
+export interface SubtitleParseResult {
+  subtitles: Subtitle[]
+  errors: SubtitleParseError[]
+  // Track-level data the format carries (VTT header, ASS styles, ...)
+  metadata?: TrackMetadata
+}
+
+export interface VttBlock {
+  kind: 'note' | 'style' | 'region'
+  content: string
+  // The cue this block was written in front of; trailing blocks have none
+  beforeCueId?: string
+}
+
+export interface VttMetadata {
+  // Everything in the header block after the WEBVTT signature
+  header: string
+  blocks: VttBlock[]
+}
+
+export interface AssMetadata {
+  // Raw [Script Info] lines, comments included
+  scriptInfo: string[]
+  // Comment events, written back after the dialogue lines
+  comments: string[]
+  // Sections we don't model ([Fonts], [Graphics], ...) kept verbatim
+  extraSections: string
+}
+
+// Track-level data that some formats carry alongside their cues
+export interface TrackMetadata {
+  vtt?: VttMetadata
+  ass?: AssMetadata
+  styles?: SubtitleStyle[]
+}
+
+export interface SerializeOptions {
+  metadata?: TrackMetadata
+  // For formats that write times as frames; the project's style profile supplies it
+  frameRate?: number
+  // ISO 639-1 code of the cue text, for formats that declare one
+  language?: string
+  // Markup tags to deliver (see `markupTags`); the rest are removed once the cue text is in the format's own markup
+  allowedTags?: string[]
+}
+
+export interface FormatValidationIssue {
+  severity: 'error' | 'warning'
+  message: string
+}
+
+// A named preset of serialize options, shown as a sub-entry of the format in the export menu
+export interface SubtitleFormatVariant<O extends SerializeOptions = SerializeOptions> {
+  label: string
+  options: Partial<O>
+}
+
+export interface SubtitleFormat<O extends SerializeOptions = SerializeOptions> {
+  id: string
+  name: string
+  // Lower-case, without the dot; the first one is used for exported files
+  extensions: string[]
+  mimeType: string
+  // Cheap content check used to detect the format regardless of file name
+  sniff(text: string): boolean
+  parse(text: string): SubtitleParseResult
+  serialize(subtitles: Subtitle[], options: O): string | Uint8Array
+  defaultOptions?: Partial<O>
+  variants?: SubtitleFormatVariant<O>[]
+  // Checks serialized output before it is downloaded
+  validate?(output: string): FormatValidationIssue[]
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { parseVTT, serializeVTT } from './vtt'
+
+const SAMPLE = [
+  'WEBVTT - Sample',
+  'Kind: captions',
+  '',
+  'STYLE',
+  '::cue { color: yellow }',
+  '',
+  'NOTE before the first cue',
+  '',
+  'intro',
+  '00:00:01.000 --> 00:00:02.500 line:85% align:start',
+  'Hello',
+  '',
+  '00:01:02.250 --> 00:01:04.000',
+  '<v Anna>Two</v>',
+  'lines',
+  ''
+].join('\n')
+
+describe('WebVTT', () => {
+  it('round-trips the header, blocks, identifiers and cue settings unchanged', () => {
+    const { subtitles, errors, metadata } = parseVTT(SAMPLE)
+
+    expect(errors).toEqual([])
+    expect(serializeVTT(subtitles, { metadata })).toBe(SAMPLE)
+  })
+
+  it('reads identifiers, settings and multi-line text', () => {
+    const { subtitles } = parseVTT(SAMPLE)
+
+    expect(subtitles).toHaveLength(2)
+    expect(subtitles[0]).toMatchObject({
+      identifier: 'intro',
+      startTime: 1,
+      endTime: 2.5,
+      settings: { line: '85%', align: 'start' }
+    })
+    expect(subtitles[1].text).toBe('<v Anna>Two</v>\nlines')
+  })
+
+  it('moves notes whose cue was deleted to the end', () => {
+    const { subtitles, metadata } = parseVTT(SAMPLE)
+    const output = serializeVTT(subtitles.slice(1), { metadata })
+
+    expect(output.trimEnd().endsWith('NOTE before the first cue')).toBe(true)
+  })
+
+  it('sets or replaces the Language header', () => {
+    const { subtitles, metadata } = parseVTT(SAMPLE)
+    expect(serializeVTT(subtitles, { metadata, language: 'de' })).toContain('Kind: captions\nLanguage: de\n')
+    expect(serializeVTT([], { metadata: { vtt: { header: '\nLanguage: en', blocks: [] } }, language: 'fr' }))
+      .toBe('WEBVTT\nLanguage: fr\n')
+  })
+
+  it('escapes arrows in cue text', () => {
+    const output = serializeVTT([{ id: 'a', startTime: 0, endTime: 1, text: 'a --> b' }])
+    expect(output).toContain('a --&gt; b')
+  })
+
+  it('reports a missing signature and bad timings', () => {
+    expect(parseVTT('00:00:01.000 --> 00:00:02.000\nHi').errors).toEqual([{ line: 1, message: 'Missing WEBVTT signature' }])
+    expect(parseVTT('WEBVTT\n\n00:00:03.000 --> 00:00:02.000\nHi').errors)
+      .toEqual([{ line: 3, message: 'Cue ends before it starts' }])
+  })
+
+  it('removes markup the allowed tags leave out after converting it', () => {
+    const output = serializeVTT(
+      [{ id: 'a', startTime: 0, endTime: 1, text: '<v Anna><b>Stop</b> {\\i1}now{\\i0}</v>' }],
+      { allowedTags: ['i'] }
+    )
+    expect(output).toContain('\nStop <i>now</i>\n')
+  })
+})
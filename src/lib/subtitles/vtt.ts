@@ -0,0 +1,201 @@
+import type {
+  CueSettings,
+  SerializeOptions,
+  Subtitle,
+  SubtitleFormat,
+  SubtitleParseError,
+  SubtitleParseResult,
+  TrackMetadata,
+  VttBlock,
+  VttMetadata
+} from './types'
+import { formatTimecode, parseTimecode } from './timecode'
+import { createSubtitleId } from './ids'
+import { assPlacementToCueSettings, assPlayResolution, assToHtml, findStyle, removeDisallowedTags } from './markup'
+
+const SETTING_KEYS: (keyof CueSettings)[] = ['vertical', 'line', 'position', 'size', 'align', 'region']
+
+export function formatVttTimestamp(seconds: number) {
+  return formatTimecode(seconds, '.')
+}
+
+function parseCueSettings(text: string): CueSettings | undefined {
+  const settings: CueSettings = {}
+  for (const token of text.split(/[ \t]+/)) {
+    const separator = token.indexOf(':')
+    if (separator <= 0) continue
+
+    const key = token.slice(0, separator) as keyof CueSettings
+    if (SETTING_KEYS.includes(key)) {
+      settings[key] = token.slice(separator + 1)
+    }
+  }
+  return Object.keys(settings).length > 0 ? settings : undefined
+}
+
+function formatCueSettings(settings?: CueSettings) {
+  if (!settings) return ''
+  return SETTING_KEYS
+    .filter(key => settings[key])
+    .map(key => ` ${key}:${settings[key]}`)
+    .join('')
+}
+
+function blockKind(firstLine: string): VttBlock['kind'] | null {
+  if (/^NOTE($|[ \t])/.test(firstLine)) return 'note'
+  if (/^STYLE[ \t]*$/.test(firstLine)) return 'style'
+  if (/^REGION[ \t]*$/.test(firstLine)) return 'region'
+  return null
+}
+
+/**
+ * Reads a WebVTT file. The header, NOTE/STYLE/REGION blocks, cue identifiers
+ * and cue settings are all kept so the file can be written back unchanged.
+ */
+export function parseVTT(text: string): SubtitleParseResult {
+  const lines = text.replace(/\uFEFF/g, '').split(/\r\n|\r|\n/)
+  const subtitles: Subtitle[] = []
+  const errors: SubtitleParseError[] = []
+  const metadata: VttMetadata = { header: '', blocks: [] }
+
+  if (!/^WEBVTT($|[ \t])/.test(lines[0] ?? '')) {
+    errors.push({ line: 1, message: 'Missing WEBVTT signature' })
+    return { subtitles, errors }
+  }
+
+  const blocks: { line: number; lines: string[] }[] = []
+  let current: { line: number; lines: string[] } | null = null
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index]
+    if (line.trim().length === 0) {
+      current = null
+      continue
+    }
+    if (!current) {
+      current = { line: index + 1, lines: [] }
+      blocks.push(current)
+    }
+    current.lines.push(line)
+  }
+
+  const [headerBlock, ...bodyBlocks] = blocks
+  metadata.header = headerBlock.lines.join('\n').slice('WEBVTT'.length)
+
+  // Blocks are anchored to the cue that follows them
+  let pendingBlocks: VttBlock[] = []
+
+  for (const block of bodyBlocks) {
+    const kind = blockKind(block.lines[0])
+    if (kind) {
+      const vttBlock: VttBlock = { kind, content: block.lines.join('\n') }
+      metadata.blocks.push(vttBlock)
+      pendingBlocks.push(vttBlock)
+      continue
+    }
+
+    const timingIndex = block.lines[0].includes('-->') ? 0 : 1
+    const timingLine = block.lines[timingIndex]
+    if (!timingLine?.includes('-->')) {
+      errors.push({ line: block.line, message: 'Block is not a cue, NOTE, STYLE or REGION' })
+      continue
+    }
+
+    const match = /^\s*(\S+)\s+-->\s+(\S+)(.*)$/.exec(timingLine)
+    const startTime = match ? parseTimecode(match[1]) : null
+    const endTime = match ? parseTimecode(match[2]) : null
+
+    if (!match || startTime === null || endTime === null) {
+      errors.push({ line: block.line + timingIndex, message: `Invalid timing "${timingLine.trim()}"` })
+      continue
+    }
+    if (endTime < startTime) {
+      errors.push({ line: block.line + timingIndex, message: 'Cue ends before it starts' })
+      continue
+    }
+
+    const subtitle: Subtitle = {
+      id: createSubtitleId(),
+      startTime,
+      endTime,
+      text: block.lines.slice(timingIndex + 1).join('\n')
+    }
+    if (timingIndex === 1) subtitle.identifier = block.lines[0].trim()
+    const settings = parseCueSettings(match[3].trim())
+    if (settings) subtitle.settings = settings
+
+    pendingBlocks.forEach(pending => { pending.beforeCueId = subtitle.id })
+    pendingBlocks = []
+    subtitles.push(subtitle)
+  }
+
+  return { subtitles, errors, metadata: { vtt: metadata } }
+}
+
+function formatCue(subtitle: Subtitle, metadata: TrackMetadata, allowedTags?: string[]) {
+  // ASS alignment and \pos become cue settings unless the cue already has its own
+  const converted = assToHtml(subtitle.text, findStyle(metadata, subtitle.style))
+  const settings = subtitle.settings ?? assPlacementToCueSettings(converted, assPlayResolution(metadata))
+
+  const lines: string[] = []
+  if (subtitle.identifier && !subtitle.identifier.includes('-->')) {
+    lines.push(subtitle.identifier)
+  }
+  lines.push(
+    `${formatVttTimestamp(subtitle.startTime)} --> ${formatVttTimestamp(subtitle.endTime)}${formatCueSettings(settings)}`
+  )
+  // Blank lines end a cue and "-->" is reserved in cue payloads
+  const text = allowedTags ? removeDisallowedTags(converted.text, allowedTags) : converted.text
+  lines.push(
+    ...text
+      .split(/\r?\n/)
+      .filter(line => line.trim().length > 0)
+      .map(line => line.replace(/-->/g, '--&gt;'))
+  )
+  return lines.join('\n')
+}
+
+// Sets the `Language:` header line, replacing one read from the source file
+function withLanguageHeader(header: string, language: string | undefined) {
+  if (!language) return header
+  if (/^Language:.*$/m.test(header)) return header.replace(/^Language:.*$/m, `Language: ${language}`)
+  return `${header}\nLanguage: ${language}`
+}
+
+/**
+ * Writes cues as WebVTT. STYLE and REGION blocks are emitted before the first
+ * cue as the spec requires; NOTE blocks stay in front of the cue they were
+ * attached to, or move to the end if that cue has been deleted.
+ */
+export function serializeVTT(subtitles: Subtitle[], options: SerializeOptions = {}) {
+  const metadata = options.metadata ?? {}
+  const ordered = [...subtitles].sort((a, b) => a.startTime - b.startTime)
+  const blocks = metadata.vtt?.blocks ?? []
+  const cueIds = new Set(ordered.map(subtitle => subtitle.id))
+
+  const output: string[] = ['WEBVTT' + withLanguageHeader(metadata.vtt?.header ?? '', options.language)]
+
+  output.push(...blocks.filter(block => block.kind !== 'note').map(block => block.content))
+
+  const notes = blocks.filter(block => block.kind === 'note')
+  for (const subtitle of ordered) {
+    output.push(...notes.filter(note => note.beforeCueId === subtitle.id).map(note => note.content))
+    output.push(formatCue(subtitle, metadata, options.allowedTags))
+  }
+  output.push(
+    ...notes
+      .filter(note => !note.beforeCueId || !cueIds.has(note.beforeCueId))
+      .map(note => note.content)
+  )
+
+  return output.join('\n\n') + '\n'
+}
+
+export const vttFormat: SubtitleFormat = {
+  id: 'vtt',
+  name: 'WebVTT',
+  extensions: ['vtt'],
+  mimeType: 'text/vtt',
+  sniff: text => /^\uFEFF?WEBVTT($|[ \t\r\n])/.test(text),
+  parse: parseVTT,
+  serialize: serializeVTT
+}
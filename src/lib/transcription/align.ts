@@ -0,0 +1,72 @@
+import type { TimedWord } from './types'
+import { percentile, type EnergyEnvelope } from './audio'
+import type { SpeechRegion } from './vad'
+
+interface AlignmentOptions {
+  // Only place words inside this part of the recording
+  range?: { start: number; end: number }
+  // Detected speech regions; when given they replace the aligner's own threshold
+  regions?: SpeechRegion[]
+}
+
+/**
+ * Places untimed words on the audio using its energy envelope. Frames louder
+ * than an adaptive threshold count as speech; words are laid out over the
+ * speech frames only, each taking time in proportion to its length, so
+ * pauses stay empty instead of being smeared across neighbouring cues.
+ */
+export function alignWordsToEnvelope(words: string[], envelope: EnergyEnvelope, options: AlignmentOptions = {}): TimedWord[] {
+  if (words.length === 0) return []
+
+  const { range, regions } = options
+  const { values, frameDuration } = envelope
+  const firstFrame = Math.max(0, Math.floor((range?.start ?? 0) / frameDuration))
+  const lastFrame = Math.min(values.length, Math.ceil((range?.end ?? values.length * frameDuration) / frameDuration))
+  const window = values.subarray(firstFrame, Math.max(firstFrame + 1, lastFrame))
+
+  const noiseFloor = percentile(window, 0.1)
+  const peak = percentile(window, 0.95)
+  const threshold = noiseFloor + (peak - noiseFloor) * 0.15
+
+  const isSpeech = (frame: number, value: number) => {
+    if (!regions) return value > threshold
+    const time = (frame + 0.5) * frameDuration
+    return regions.some(region => time >= region.start && time < region.end)
+  }
+
+  let speechFrames: number[] = []
+  window.forEach((value, index) => {
+    if (isSpeech(firstFrame + index, value)) speechFrames.push(firstFrame + index)
+  })
+  // Flat or silent audio: fall back to spreading evenly over the range
+  if (speechFrames.length < words.length) {
+    speechFrames = Array.from({ length: window.length }, (_, index) => firstFrame + index)
+  }
+
+  const weights = words.map(word => word.length + 1)
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0)
+  const frameCount = speechFrames.length
+
+  let cumulative = 0
+  return words.map((word, index) => {
+    const startIndex = Math.min(frameCount - 1, Math.floor((cumulative / totalWeight) * frameCount))
+    cumulative += weights[index]
+    const endIndex = Math.max(startIndex + 1, Math.min(frameCount, Math.floor((cumulative / totalWeight) * frameCount)))
+
+    // A word straddling a pause keeps only the longer contiguous run of its frames
+    let runStart = startIndex
+    let best = { from: startIndex, to: startIndex + 1 }
+    for (let i = startIndex + 1; i <= endIndex; i++) {
+      if (i === endIndex || speechFrames[i] - speechFrames[i - 1] > 1) {
+        if (i - runStart > best.to - best.from) best = { from: runStart, to: i }
+        runStart = i
+      }
+    }
+
+    return {
+      word,
+      start: speechFrames[best.from] * frameDuration,
+      end: (speechFrames[best.to - 1] + 1) * frameDuration
+    }
+  })
+}
@@ -0,0 +1,82 @@
+export interface EnergyEnvelope {
+  // RMS level of each frame, mixed down to mono
+  values: Float32Array
+  frameDuration: number
+}
+
+// Speech recognisers work at 16 kHz; decoding long recordings at this rate keeps them in memory
+export const SPEECH_SAMPLE_RATE = 16000
+
+export async function decodeAudioFile(file: Blob, sampleRate = 44100): Promise<AudioBuffer> {
+  const data = await file.arrayBuffer()
+  // An offline context decodes without an output device or a user gesture
+  const context = new OfflineAudioContext(1, 1, sampleRate)
+  return context.decodeAudioData(data)
+}
+
+/**
+ * Encodes `start`..`end` seconds of the buffer as a mono 16-bit WAV file,
+ * small enough to upload one chunk of a long recording at a time.
+ */
+export function encodeWavRange(buffer: AudioBuffer, start: number, end: number): Blob {
+  const { sampleRate } = buffer
+  const first = Math.max(0, Math.floor(start * sampleRate))
+  const last = Math.min(buffer.length, Math.ceil(end * sampleRate))
+  const length = Math.max(0, last - first)
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, index) => buffer.getChannelData(index))
+
+  const view = new DataView(new ArrayBuffer(44 + length * 2))
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i))
+  }
+  writeText(0, 'RIFF')
+  view.setUint32(4, 36 + length * 2, true)
+  writeText(8, 'WAVE')
+  writeText(12, 'fmt ')
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true)
+  view.setUint16(22, 1, true)
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate * 2, true)
+  view.setUint16(32, 2, true)
+  view.setUint16(34, 16, true)
+  writeText(36, 'data')
+  view.setUint32(40, length * 2, true)
+
+  for (let i = 0; i < length; i++) {
+    let sample = 0
+    for (const channel of channels) sample += channel[first + i]
+    sample = Math.max(-1, Math.min(1, sample / channels.length))
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true)
+  }
+
+  return new Blob([view], { type: 'audio/wav' })
+}
+
+export function computeEnergyEnvelope(buffer: AudioBuffer, frameDuration = 0.02): EnergyEnvelope {
+  const frameSize = Math.max(1, Math.round(buffer.sampleRate * frameDuration))
+  const frameCount = Math.ceil(buffer.length / frameSize)
+  const values = new Float32Array(frameCount)
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, index) => buffer.getChannelData(index))
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const start = frame * frameSize
+    const end = Math.min(buffer.length, start + frameSize)
+    let sum = 0
+    for (let i = start; i < end; i++) {
+      let sample = 0
+      for (const channel of channels) sample += channel[i]
+      sample /= channels.length
+      sum += sample * sample
+    }
+    values[frame] = Math.sqrt(sum / (end - start))
+  }
+
+  return { values, frameDuration: frameSize / buffer.sampleRate }
+}
+
+export function percentile(values: ArrayLike<number>, fraction: number) {
+  if (values.length === 0) return 0
+  const sorted = Array.from(values).sort((a, b) => a - b)
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))]
+}
@@ -0,0 +1,44 @@
+import { blink } from '../../blink/client'
+import type { TranscriptionProvider } from './types'
+
+async function readAsBase64(file: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => {
+      const dataUrl = reader.result as string
+      resolve(dataUrl.split(',')[1])
+    }
+    reader.onerror = reject
+    reader.readAsDataURL(file)
+  })
+}
+
+export const blinkProvider: TranscriptionProvider = {
+  id: 'blink',
+  name: 'Blink AI',
+  description: 'Cloud speech-to-text through the Blink SDK. Needs a network connection.',
+  requiresAuth: true,
+  async transcribe(audio, { language, signal }) {
+    const response = await blink.ai.transcribeAudio({
+      audio: await readAsBase64(audio),
+      language,
+      response_format: 'verbose_json',
+      signal
+    })
+
+    return {
+      text: response.text,
+      words: response.words,
+      segments: (response.segments ?? []).map(segment => ({
+        start: segment.start,
+        end: segment.end,
+        text: segment.text,
+        // Whisper reports the mean token log-probability; its exponent is the usual 0–1 stand-in
+        confidence: Number.isFinite(segment.avg_logprob)
+          ? Math.min(1, Math.max(0, Math.exp(segment.avg_logprob)))
+          : undefined
+      })),
+      language: response.language
+    }
+  }
+}
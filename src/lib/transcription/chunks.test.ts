@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import { mapWithConcurrency, planChunks, planRangeChunks, wordsInChunk } from './chunks'
+
+// Speech with a one-second pause every 20 seconds
+const regions = Array.from({ length: 50 }, (_, index) => ({ start: index * 20, end: index * 20 + 19 }))
+
+describe('chunk planning', () => {
+  it('keeps a short recording in one chunk', () => {
+    expect(planChunks(120, regions)).toEqual([{ index: 0, start: 0, end: 120, audioStart: 0, audioEnd: 120 }])
+  })
+
+  it('cuts long recordings in the pauses, with overlapping audio', () => {
+    const chunks = planChunks(1000, regions, { chunkLength: 300, searchWindow: 30, overlap: 2 })
+
+    expect(chunks.map(chunk => chunk.end)).toEqual([299.5, 599.5, 1000])
+    expect(chunks[1]).toMatchObject({ start: 299.5, audioStart: 297.5, audioEnd: 601.5 })
+    expect(chunks[0].audioStart).toBe(0)
+    expect(chunks[2].audioEnd).toBe(1000)
+  })
+
+  it('folds a short tail into the last chunk', () => {
+    const chunks = planChunks(700, regions, { chunkLength: 300 })
+    expect(chunks).toHaveLength(2)
+    expect(chunks[1].end).toBe(700)
+  })
+
+  it('plans a range in recording time, with audio past both ends', () => {
+    const chunks = planRangeChunks(1000, regions, { start: 100, end: 150 }, { overlap: 2 })
+    expect(chunks).toEqual([{ index: 0, start: 100, end: 150, audioStart: 98, audioEnd: 152 }])
+
+    const long = planRangeChunks(1000, regions, { start: 100, end: 900 }, { chunkLength: 300 })
+    expect(long.map(chunk => chunk.end)).toEqual([399.5, 699.5, 900])
+  })
+
+  it('clamps a range to the recording', () => {
+    expect(planRangeChunks(120, regions, { start: -5, end: 200 })).toMatchObject([{ start: 0, end: 120 }])
+  })
+
+  it('rejects ranges that are inverted, empty or past the end', () => {
+    expect(() => planRangeChunks(120, regions, { start: 50, end: 40 })).toThrow('has no audio')
+    expect(() => planRangeChunks(120, regions, { start: 50, end: 50 })).toThrow('has no audio')
+    expect(() => planRangeChunks(120, regions, { start: 130, end: 140 })).toThrow('has no audio')
+    expect(() => planRangeChunks(120, regions, { start: 10, end: NaN })).toThrow('has no audio')
+  })
+})
+
+describe('words in a chunk', () => {
+  const chunk = { index: 0, start: 10, end: 20, audioStart: 8, audioEnd: 22 }
+  const words = [
+    { word: 'before', start: 8.5, end: 9.5 },
+    { word: 'edge', start: 9.6, end: 10.6 },
+    { word: 'inside', start: 15, end: 16 },
+    { word: 'end', start: 19.5, end: 20.5 }
+  ]
+
+  it('keeps words centred inside the chunk', () => {
+    expect(wordsInChunk(words, chunk, false).map(word => word.word)).toEqual(['edge', 'inside'])
+  })
+
+  it('keeps a word centred on the end of the last chunk', () => {
+    expect(wordsInChunk(words, chunk, true).map(word => word.word)).toEqual(['edge', 'inside', 'end'])
+  })
+})
+
+describe('mapWithConcurrency', () => {
+  it('resolves in item order with at most `limit` tasks running', async () => {
+    let running = 0
+    let peak = 0
+    const results = await mapWithConcurrency([30, 10, 20, 0], 2, async delay => {
+      peak = Math.max(peak, ++running)
+      await new Promise(resolve => setTimeout(resolve, delay))
+      running--
+      return delay * 2
+    })
+
+    expect(results).toEqual([60, 20, 40, 0])
+    expect(peak).toBe(2)
+  })
+
+  it('rejects on the first failure and starts no new tasks', async () => {
+    const started: number[] = []
+    const run = mapWithConcurrency([1, 2, 3, 4], 1, async item => {
+      started.push(item)
+      if (item === 2) throw new Error('chunk failed')
+      return item
+    })
+
+    await expect(run).rejects.toThrow('chunk failed')
+    expect(started).toEqual([1, 2])
+  })
+})
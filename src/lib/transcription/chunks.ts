@@ -0,0 +1,140 @@
+import type { TimedWord } from './types'
+import type { SpeechRegion } from './vad'
+
+export interface ChunkingOptions {
+  // Preferred chunk length in seconds; the actual cut moves to the nearest good pause
+  chunkLength: number
+  // How far either side of the target a cut may move to reach a pause
+  searchWindow: number
+  // Audio shared with the neighbouring chunk, so a word at the cut is heard whole by one of them
+  overlap: number
+}
+
+export const DEFAULT_CHUNKING: ChunkingOptions = {
+  chunkLength: 300,
+  searchWindow: 30,
+  overlap: 2
+}
+
+// Chunks transcribed at once; more would mostly queue behind the provider's rate limit
+export const DEFAULT_CONCURRENCY = 2
+
+export interface AudioChunk {
+  index: number
+  // The part of the recording this chunk's words are kept from
+  start: number
+  end: number
+  // The audio sent for it, including the overlap
+  audioStart: number
+  audioEnd: number
+}
+
+// The widest pause near the target, preferring the closer one when widths are alike
+function findCut(regions: SpeechRegion[], target: number, searchWindow: number) {
+  let best: { time: number; score: number } | null = null
+  for (let i = 0; i < regions.length - 1; i++) {
+    const gapStart = regions[i].end
+    const gapEnd = regions[i + 1].start
+    const time = (gapStart + gapEnd) / 2
+    if (gapEnd <= gapStart || Math.abs(time - target) > searchWindow) continue
+
+    const score = (gapEnd - gapStart) - Math.abs(time - target) / searchWindow
+    if (!best || score > best.score) best = { time, score }
+  }
+  return best?.time ?? target
+}
+
+/**
+ * Splits a recording into chunks of about `chunkLength` seconds, cutting in
+ * the pauses between speech regions. A short recording is one chunk; a short
+ * tail is folded into the last chunk rather than sent on its own.
+ */
+export function planChunks(
+  duration: number,
+  regions: SpeechRegion[],
+  options: Partial<ChunkingOptions> = {}
+): AudioChunk[] {
+  const { chunkLength, searchWindow, overlap } = { ...DEFAULT_CHUNKING, ...options }
+  const cuts: number[] = []
+  let start = 0
+  while (duration - start > chunkLength * 1.5) {
+    const cut = findCut(regions, start + chunkLength, Math.min(searchWindow, chunkLength / 2))
+    cuts.push(cut)
+    start = cut
+  }
+
+  const bounds = [0, ...cuts, duration]
+  return bounds.slice(0, -1).map((chunkStart, index) => ({
+    index,
+    start: chunkStart,
+    end: bounds[index + 1],
+    audioStart: Math.max(0, chunkStart - overlap),
+    audioEnd: Math.min(duration, bounds[index + 1] + overlap)
+  }))
+}
+
+/**
+ * Plans chunks for part of the recording. Words are kept from the range
+ * only, but the audio sent reaches `overlap` past both ends of it, so a word
+ * on the edge is still heard whole. A range that is empty or inverted once
+ * clamped to the recording is an error.
+ */
+export function planRangeChunks(
+  duration: number,
+  regions: SpeechRegion[],
+  range: { start: number; end: number },
+  options: Partial<ChunkingOptions> = {}
+): AudioChunk[] {
+  const { overlap } = { ...DEFAULT_CHUNKING, ...options }
+  const start = Math.max(0, range.start)
+  const end = Math.min(duration, range.end)
+  if (!(end > start)) {
+    throw new Error(`Range ${range.start}–${range.end} s has no audio in a ${duration} s recording`)
+  }
+  const inner = regions
+    .filter(region => region.end > start && region.start < end)
+    .map(region => ({ start: region.start - start, end: region.end - start }))
+
+  return planChunks(end - start, inner, options).map(chunk => ({
+    index: chunk.index,
+    start: chunk.start + start,
+    end: chunk.end + start,
+    audioStart: Math.max(0, chunk.start + start - overlap),
+    audioEnd: Math.min(duration, chunk.end + start + overlap)
+  }))
+}
+
+/**
+ * Keeps the words that belong to the chunk: those centred inside its own
+ * range. A word in an overlap is heard by both neighbours but kept by one.
+ */
+export function wordsInChunk(words: TimedWord[], chunk: AudioChunk, isLast: boolean) {
+  return words.filter(word => {
+    const middle = (word.start + word.end) / 2
+    return middle >= chunk.start && (middle < chunk.end || (isLast && middle <= chunk.end))
+  })
+}
+
+/**
+ * Runs `task` over the items with at most `limit` in flight, resolving in
+ * item order. The first failure rejects and stops new tasks starting; those
+ * already running still finish.
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>) {
+  const results: R[] = new Array(items.length)
+  let next = 0
+  let failed = false
+  const worker = async () => {
+    while (next < items.length && !failed) {
+      const index = next++
+      try {
+        results[index] = await task(items[index])
+      } catch (error) {
+        failed = true
+        throw error
+      }
+    }
+  }
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker))
+  return results
+}
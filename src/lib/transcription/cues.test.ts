@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { groupWordsIntoCues } from './cues'
+import type { TimedWord } from './types'
+
+// Words of 0.3 s with 0.1 s between them, starting at `start`
+function words(text: string, start = 0): TimedWord[] {
+  return text.split(' ').map((word, index) => ({ word, start: start + index * 0.4, end: start + index * 0.4 + 0.3 }))
+}
+
+const texts = (cues: { text: string }[]) => cues.map(cue => cue.text)
+
+describe('groupWordsIntoCues', () => {
+  it('breaks at sentence ends', () => {
+    expect(texts(groupWordsIntoCues(words('Hello there. How are you?')))).toEqual(['Hello there.', 'How are you?'])
+  })
+
+  it('breaks at long pauses', () => {
+    const cues = groupWordsIntoCues([...words('first part'), ...words('second part', 5)])
+    expect(texts(cues)).toEqual(['first part', 'second part'])
+  })
+
+  it('keeps cues within the character and duration limits', () => {
+    const cues = groupWordsIntoCues(words('one two three four five six seven eight'), { maxChars: 14 })
+    expect(cues.every(cue => cue.text.length <= 14)).toBe(true)
+
+    const timed = groupWordsIntoCues(words('one two three four five six seven eight'), { maxDuration: 1 })
+    expect(timed.every(cue => cue.endTime - cue.startTime <= 1.5)).toBe(true)
+    expect(timed.length).toBeGreaterThan(1)
+  })
+
+  it('holds short cues for the minimum duration without overlapping the next one', () => {
+    const cues = groupWordsIntoCues([{ word: 'Hi.', start: 0, end: 0.2 }, { word: 'Yes.', start: 0.6, end: 0.8 }], { minDuration: 1 })
+    expect(cues[0]).toMatchObject({ startTime: 0, endTime: 0.6 })
+    expect(cues[1]).toMatchObject({ startTime: 0.6, endTime: 1.6 })
+  })
+
+  it('never spans two speech regions and extends to region edges', () => {
+    const regions = [{ start: 0.9, end: 2 }, { start: 2.1, end: 4 }]
+    const cues = groupWordsIntoCues(
+      [{ word: 'one', start: 1, end: 1.5 }, { word: 'two', start: 2.2, end: 2.6 }],
+      { maxGap: 5, minDuration: 0 },
+      regions
+    )
+
+    expect(texts(cues)).toEqual(['one', 'two'])
+    expect(cues[0]).toMatchObject({ startTime: 0.9, endTime: 2 })
+    expect(cues[1]).toMatchObject({ startTime: 2.1, endTime: 4 })
+  })
+})
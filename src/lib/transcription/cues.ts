@@ -0,0 +1,78 @@
+import type { Subtitle } from '../subtitles/types'
+import { createSubtitleId } from '../subtitles/ids'
+import type { TimedWord } from './types'
+import { findRegionAt, type SpeechRegion } from './vad'
+
+export interface CueGroupingOptions {
+  maxChars: number
+  maxDuration: number
+  // A pause longer than this always starts a new cue
+  maxGap: number
+  // Short cues are held on screen up to this long, without running into the next one
+  minDuration: number
+}
+
+export const DEFAULT_CUE_GROUPING: CueGroupingOptions = {
+  maxChars: 84,
+  maxDuration: 6,
+  maxGap: 0.8,
+  minDuration: 1
+}
+
+/**
+ * Groups timed words into cues. A cue ends at a sentence boundary, a pause,
+ * or when it would grow past the character or duration limit. With speech
+ * regions, a cue never spans two regions and its edges extend to the
+ * region's (padded) boundaries when the neighbouring cues leave room.
+ */
+export function groupWordsIntoCues(
+  words: TimedWord[],
+  options: Partial<CueGroupingOptions> = {},
+  regions: SpeechRegion[] = []
+): Subtitle[] {
+  const { maxChars, maxDuration, maxGap, minDuration } = { ...DEFAULT_CUE_GROUPING, ...options }
+  const regionOf = (word: TimedWord) => findRegionAt(regions, (word.start + word.end) / 2)
+  const groups: TimedWord[][] = []
+  let current: TimedWord[] = []
+
+  for (const word of words) {
+    const previous = current[current.length - 1]
+    if (previous) {
+      const text = [...current, word].map(entry => entry.word).join(' ')
+      const endsSentence = /[.!?…]["')\]]*$/.test(previous.word)
+      const changesRegion = regions.length > 0 && regionOf(word) !== regionOf(previous)
+      if (
+        changesRegion ||
+        text.length > maxChars ||
+        word.end - current[0].start > maxDuration ||
+        word.start - previous.end > maxGap ||
+        endsSentence
+      ) {
+        groups.push(current)
+        current = []
+      }
+    }
+    current.push(word)
+  }
+  if (current.length > 0) groups.push(current)
+
+  return groups.map((group, index) => {
+    const firstStart = group[0].start
+    const lastEnd = group[group.length - 1].end
+    const previousEnd = groups[index - 1]?.[groups[index - 1].length - 1].end ?? 0
+    const nextStart = groups[index + 1]?.[0].start ?? Infinity
+
+    const firstRegion = regions[regionOf(group[0])]
+    const lastRegion = regions[regionOf(group[group.length - 1])]
+    const startTime = firstRegion ? Math.max(previousEnd, Math.min(firstStart, firstRegion.start)) : firstStart
+    const regionEnd = lastRegion ? Math.min(lastRegion.end, nextStart) : lastEnd
+    const endTime = Math.max(lastEnd, regionEnd, Math.min(startTime + minDuration, nextStart))
+
+    return {
+      id: createSubtitleId(),
+      startTime,
+      endTime,
+      text: group.map(entry => entry.word).join(' ')
+    }
+  })
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it, vi } from 'vitest'
+import { addChunkCues, isTransientError } from './jobs'
+
+vi.mock('../../blink/client', () => ({ blink: {} }))
+
+const cue = (id: string, startTime: number) => ({ id, startTime, endTime: startTime + 1, text: id })
+
+describe('transcription jobs', () => {
+  it('replaces the track with the first chunk and merges later ones in time order', () => {
+    const track = [cue('old', 0)]
+    const first = addChunkCues(track, [cue('b', 300), cue('c', 301)], true)
+    expect(first.map(sub => sub.id)).toEqual(['b', 'c'])
+
+    expect(addChunkCues(first, [cue('a', 5)], false).map(sub => sub.id)).toEqual(['a', 'b', 'c'])
+  })
+
+  it('retries network failures, rate limits and server errors only', () => {
+    expect(isTransientError(new TypeError('Failed to fetch'))).toBe(true)
+    expect(isTransientError({ status: 429 })).toBe(true)
+    expect(isTransientError({ status: 503 })).toBe(true)
+    expect(isTransientError({ status: 400 })).toBe(false)
+    expect(isTransientError(new Error('Unsupported audio'))).toBe(false)
+  })
+})
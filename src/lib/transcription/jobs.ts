@@ -0,0 +1,210 @@
+import type { Subtitle } from '../subtitles/types'
+import type { LineBreakOptions } from '../subtitles/linebreak'
+import type { Project } from '../projects/types'
+import { JOBS_STORE, PROJECTS_STORE, withStore, withTransaction } from '../storage/db'
+import type { CueGroupingOptions } from './cues'
+import { DEFAULT_CONCURRENCY, mapWithConcurrency, type AudioChunk } from './chunks'
+import { planTranscription, prepareAudio, transcribeChunk, type SpeechAnalysis } from './pipeline'
+
+export type ChunkStatus = 'pending' | 'running' | 'retrying' | 'done' | 'failed'
+
+// 'interrupted' is a job that was running when the page went away
+export type JobStatus = 'running' | 'interrupted' | 'cancelled' | 'failed' | 'done'
+
+export interface ChunkState extends AudioChunk {
+  status: ChunkStatus
+  attempts: number
+  error?: string
+}
+
+// What the job was started with, so a resumed job finishes the way it began
+export interface JobSettings {
+  provider?: string
+  language?: string
+  grouping: Partial<CueGroupingOptions>
+  lineBreaks?: LineBreakOptions
+}
+
+export interface TranscriptionJob {
+  projectId: string
+  status: JobStatus
+  settings: JobSettings
+  // Planned when the audio is first decoded
+  chunks: ChunkState[]
+  // The provider's answer for a job started with auto-detect
+  detectedLanguage: string | null
+  error?: string
+  createdAt: number
+  updatedAt: number
+}
+
+export interface JobRunOptions {
+  signal: AbortSignal
+  concurrency?: number
+  // Called with every change to the job, after it has been queued for saving
+  onUpdate: (job: TranscriptionJob) => void
+  // Cues from a chunk that just finished, already queued for saving to the project along with the job;
+  // `first` is true for the job's first finished chunk
+  onChunk: (subtitles: Subtitle[], first: boolean) => void
+}
+
+const MAX_ATTEMPTS = 4
+const BASE_RETRY_DELAY_MS = 1000
+
+export function createTranscriptionJob(projectId: string, settings: JobSettings): TranscriptionJob {
+  const now = Date.now()
+  return { projectId, status: 'running', settings, chunks: [], detectedLanguage: null, createdAt: now, updatedAt: now }
+}
+
+export async function loadTranscriptionJob(projectId: string) {
+  const job: TranscriptionJob | undefined = await withStore(JOBS_STORE, 'readonly', store => store.get(projectId))
+  if (!job) return null
+
+  // Nothing survives a reload, so whatever was in flight starts again
+  if (job.status !== 'running') return job
+  return {
+    ...job,
+    status: 'interrupted' as const,
+    chunks: job.chunks.map(chunk => chunk.status === 'done' ? chunk : { ...chunk, status: 'pending' as const })
+  }
+}
+
+export async function saveTranscriptionJob(job: TranscriptionJob) {
+  await withStore(JOBS_STORE, 'readwrite', store => store.put(job, job.projectId))
+}
+
+// A finished chunk's cues added to the track; the job's first finished chunk replaces it
+export function addChunkCues(track: Subtitle[], cues: Subtitle[], first: boolean) {
+  return [...(first ? [] : track), ...cues].sort((a, b) => a.startTime - b.startTime)
+}
+
+/**
+ * Saves the job together with a finished chunk's cues, added to the stored
+ * project in the same transaction. The editor's autosave trails behind by a
+ * second, so without this a reload could find the chunk done and its cues gone.
+ */
+async function saveJobWithCues(job: TranscriptionJob, cues: Subtitle[], first: boolean) {
+  await withTransaction([PROJECTS_STORE, JOBS_STORE], 'readwrite', transaction => {
+    const projects = transaction.objectStore(PROJECTS_STORE)
+    const request = projects.get(job.projectId)
+    request.onsuccess = () => {
+      const project: Project | undefined = request.result
+      if (project) projects.put({ ...project, subtitles: addChunkCues(project.subtitles, cues, first), modifiedAt: Date.now() })
+    }
+    transaction.objectStore(JOBS_STORE).put(job, job.projectId)
+  })
+}
+
+export async function deleteTranscriptionJob(projectId: string) {
+  await withStore(JOBS_STORE, 'readwrite', store => store.delete(projectId))
+}
+
+// Network failures, timeouts, rate limits and server errors are worth another try; bad input isn't
+export function isTransientError(error: unknown) {
+  if (error instanceof TypeError) return true
+  const status = (error as { status?: unknown } | null)?.status
+  return typeof status === 'number' && (status === 0 || status === 408 || status === 429 || status >= 500)
+}
+
+function abortError() {
+  return new DOMException('Transcription cancelled', 'AbortError')
+}
+
+function wait(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal.aborted) return reject(abortError())
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(abortError())
+    }
+    signal.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+/**
+ * Runs a job until every chunk is done, it is cancelled through `signal`, or
+ * a chunk fails for good. Chunks already done are skipped, which is how an
+ * interrupted, cancelled or failed job resumes. Transient errors are retried
+ * with exponential backoff. Every change is saved, and the job is returned
+ * in its final state rather than thrown.
+ */
+export async function runTranscriptionJob(
+  job: TranscriptionJob,
+  audioFile: Blob,
+  analysis: SpeechAnalysis | undefined,
+  { signal, concurrency = DEFAULT_CONCURRENCY, onUpdate, onChunk }: JobRunOptions
+): Promise<TranscriptionJob> {
+  let current = job
+  const update = (changes: Partial<TranscriptionJob>, save = saveTranscriptionJob) => {
+    current = { ...current, ...changes, updatedAt: Date.now() }
+    save(current).catch(error => console.error('Unable to save transcription job:', error))
+    onUpdate(current)
+  }
+  const updateChunk = (index: number, changes: Partial<ChunkState>, save?: typeof saveTranscriptionJob) => {
+    update({ chunks: current.chunks.map(chunk => (chunk.index === index ? { ...chunk, ...changes } : chunk)) }, save)
+  }
+
+  update({
+    status: 'running',
+    error: undefined,
+    chunks: current.chunks.map(chunk => chunk.status === 'done' ? chunk : { ...chunk, status: 'pending', error: undefined })
+  })
+
+  try {
+    const prepared = await prepareAudio(audioFile, analysis)
+    if (current.chunks.length === 0) {
+      update({ chunks: planTranscription(prepared).map(chunk => ({ ...chunk, status: 'pending', attempts: 0 })) })
+    }
+
+    const lastIndex = current.chunks.length - 1
+    const pending = current.chunks.filter(chunk => chunk.status !== 'done')
+
+    await mapWithConcurrency(pending, concurrency, async chunk => {
+      for (let attempt = 1; ; attempt++) {
+        if (signal.aborted) throw abortError()
+        updateChunk(chunk.index, { status: attempt === 1 ? 'running' : 'retrying', attempts: chunk.attempts + attempt })
+
+        try {
+          const result = await transcribeChunk(prepared, chunk, chunk.index === lastIndex, {
+            ...current.settings,
+            language: current.settings.language ?? current.detectedLanguage ?? undefined,
+            signal
+          })
+
+          if (!current.settings.language && !current.detectedLanguage && result.language) {
+            update({ detectedLanguage: result.language })
+          }
+          const first = !current.chunks.some(entry => entry.status === 'done')
+          updateChunk(chunk.index, { status: 'done', error: undefined }, done => saveJobWithCues(done, result.subtitles, first))
+          onChunk(result.subtitles, first)
+          return
+        } catch (error) {
+          if (signal.aborted) throw abortError()
+          if (attempt >= MAX_ATTEMPTS || !isTransientError(error)) {
+            updateChunk(chunk.index, { status: 'failed', error: errorMessage(error) })
+            throw error
+          }
+          updateChunk(chunk.index, { status: 'retrying', error: errorMessage(error) })
+          // 1 s, 2 s, 4 s... with jitter so parallel chunks don't retry in lockstep
+          await wait(BASE_RETRY_DELAY_MS * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5), signal)
+        }
+      }
+    })
+
+    update({ status: 'done' })
+  } catch (error) {
+    const unfinished = current.chunks.map(chunk =>
+      chunk.status === 'running' || chunk.status === 'retrying' ? { ...chunk, status: 'pending' as const } : chunk
+    )
+    if (signal.aborted) update({ status: 'cancelled', chunks: unfinished })
+    else update({ status: 'failed', error: errorMessage(error), chunks: unfinished })
+  }
+
+  return current
+}
@@ -0,0 +1,62 @@
+import type { TimedWord, TranscriptSegment, TranscriptionProvider } from './types'
+import { SPEECH_SAMPLE_RATE, computeEnergyEnvelope, decodeAudioFile } from './audio'
+import { detectSpeechRegions } from './vad'
+
+// Cycled through to fill the speech the clip contains
+const FIXTURE_SCRIPT = (
+  'The quick brown fox jumps over the lazy dog. ' +
+  'Every subtitle here was generated on this device, so nothing was sent over the network. ' +
+  'Words are spread evenly across each stretch of speech that was detected in the audio. ' +
+  'Run the same recording again and you will get exactly the same cues.'
+).split(' ')
+
+const WORDS_PER_SECOND = 2.5
+
+/**
+ * A deterministic stand-in for a speech-to-text service. It finds the speech
+ * in the clip and fills it with words from a fixed script, one segment per
+ * speech region, so the same audio always produces the same transcript and
+ * the whole pipeline can run offline.
+ */
+export const localProvider: TranscriptionProvider = {
+  id: 'local',
+  name: 'Local fixtures',
+  description: 'Fills detected speech with placeholder text on this device. For offline work and testing.',
+  requiresAuth: false,
+  async transcribe(audio, { language, signal }) {
+    const buffer = await decodeAudioFile(audio, SPEECH_SAMPLE_RATE)
+    signal?.throwIfAborted()
+
+    const regions = detectSpeechRegions(computeEnergyEnvelope(buffer))
+    const words: TimedWord[] = []
+    const segments: TranscriptSegment[] = []
+    let next = 0
+
+    for (const region of regions) {
+      const count = Math.max(1, Math.round((region.end - region.start) * WORDS_PER_SECOND))
+      const step = (region.end - region.start) / count
+      const regionWords = Array.from({ length: count }, (_, index) => ({
+        word: FIXTURE_SCRIPT[(next + index) % FIXTURE_SCRIPT.length],
+        start: region.start + index * step,
+        end: region.start + (index + 1) * step
+      }))
+      next += count
+
+      words.push(...regionWords)
+      segments.push({
+        start: region.start,
+        end: region.end,
+        text: regionWords.map(word => word.word).join(' '),
+        words: regionWords,
+        confidence: 1
+      })
+    }
+
+    return {
+      text: segments.map(segment => segment.text).join(' '),
+      segments,
+      words,
+      language: language ?? 'en'
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from 'vitest'
+import { resolveWordTimings, type SpeechAnalysis } from './pipeline'
+
+vi.mock('../../blink/client', () => ({ blink: {} }))
+
+// Ten seconds of steady speech at 20 ms frames
+const analysis: SpeechAnalysis = {
+  envelope: { values: new Float32Array(500).fill(0.5), frameDuration: 0.02 },
+  regions: [{ start: 0, end: 10 }]
+}
+
+describe('resolveWordTimings', () => {
+  it('uses top-level word timings without analysing the audio', async () => {
+    const loadAnalysis = vi.fn(async () => analysis)
+    const words = await resolveWordTimings(
+      { text: 'hi there', words: [{ word: ' hi', start: 1, end: 1.2 }, { word: 'there ', start: 1.3, end: 1.6 }] },
+      loadAnalysis
+    )
+
+    expect(words).toEqual([{ word: 'hi', start: 1, end: 1.2 }, { word: 'there', start: 1.3, end: 1.6 }])
+    expect(loadAnalysis).not.toHaveBeenCalled()
+  })
+
+  it('uses word timings nested in segments', async () => {
+    const loadAnalysis = vi.fn(async () => analysis)
+    const words = await resolveWordTimings({
+      text: 'one two',
+      segments: [
+        { start: 0, end: 1, text: 'one', words: [{ word: 'one', start: 0.2, end: 0.6 }] },
+        { start: 2, end: 3, text: 'two', words: [{ word: 'two', start: 2.1, end: 2.5 }] }
+      ]
+    }, loadAnalysis)
+
+    expect(words).toEqual([{ word: 'one', start: 0.2, end: 0.6 }, { word: 'two', start: 2.1, end: 2.5 }])
+    expect(loadAnalysis).not.toHaveBeenCalled()
+  })
+
+  it('aligns segments without word timings inside their own span', async () => {
+    const words = await resolveWordTimings({
+      text: 'one two three',
+      segments: [
+        { start: 0, end: 1, text: 'one', words: [{ word: 'one', start: 0.2, end: 0.6 }] },
+        { start: 4, end: 6, text: 'two three' }
+      ]
+    }, async () => analysis)
+
+    expect(words[0]).toEqual({ word: 'one', start: 0.2, end: 0.6 })
+    expect(words.slice(1).map(word => word.word)).toEqual(['two', 'three'])
+    for (const word of words.slice(1)) {
+      expect(word.start).toBeGreaterThanOrEqual(4)
+      expect(word.end).toBeLessThanOrEqual(6)
+    }
+  })
+
+  it('aligns plain text across the recording', async () => {
+    const words = await resolveWordTimings({ text: 'a b c d' }, async () => analysis)
+    expect(words.map(word => word.word)).toEqual(['a', 'b', 'c', 'd'])
+    expect(words[0].start).toBe(0)
+    expect(words[3].end).toBeCloseTo(10)
+  })
+})
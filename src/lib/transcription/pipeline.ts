@@ -0,0 +1,187 @@
+import type { Subtitle } from '../subtitles/types'
+import { breakCueLines, type LineBreakOptions } from '../subtitles/linebreak'
+import { normaliseLanguage } from '../languages'
+import type { ProviderTranscript, TimedWord, TranscriptSegment } from './types'
+import {
+  SPEECH_SAMPLE_RATE,
+  computeEnergyEnvelope,
+  decodeAudioFile,
+  encodeWavRange,
+  type EnergyEnvelope
+} from './audio'
+import { alignWordsToEnvelope } from './align'
+import { groupWordsIntoCues, type CueGroupingOptions } from './cues'
+import { detectSpeechRegions, type SpeechRegion } from './vad'
+import {
+  DEFAULT_CONCURRENCY,
+  mapWithConcurrency,
+  planChunks,
+  planRangeChunks,
+  wordsInChunk,
+  type AudioChunk,
+  type ChunkingOptions
+} from './chunks'
+import { getTranscriptionProvider } from './providers'
+
+// Audio analysis the editor has already done for the loaded file
+export interface SpeechAnalysis {
+  envelope: EnergyEnvelope
+  regions: SpeechRegion[]
+  // The recording decoded at SPEECH_SAMPLE_RATE, when the analysis kept it
+  buffer?: AudioBuffer
+}
+
+export interface TranscribeOptions {
+  // A registered provider's id; the default provider when omitted
+  provider?: string
+  // ISO 639-1 code of the spoken language; the provider detects it when omitted
+  language?: string
+  grouping?: Partial<CueGroupingOptions>
+  // Cue text is left on one line when omitted
+  lineBreaks?: LineBreakOptions
+  signal?: AbortSignal
+}
+
+// Decoded audio and its speech analysis, shared by every chunk of a transcription
+export interface PreparedAudio {
+  buffer: AudioBuffer
+  analysis: SpeechAnalysis
+}
+
+export interface ChunkTranscription {
+  // The chunk's cues, in time order
+  subtitles: Subtitle[]
+  // The language the provider reported, if it did
+  language: string | null
+}
+
+function splitWords(text: string) {
+  return text.split(/\s+/).filter(word => word.length > 0)
+}
+
+// Word timings a provider returned that can be used as they are
+function usableWords(words: TimedWord[] = []) {
+  return words
+    .map(word => ({ ...word, word: word.word.trim() }))
+    .filter(word => word.word.length > 0 && Number.isFinite(word.start) && Number.isFinite(word.end))
+}
+
+/**
+ * Turns a provider response into timed words, using the most precise timing
+ * it returned: word timestamps as-is (top-level or inside segments), segment
+ * timestamps with words aligned inside each segment, or plain text aligned
+ * against the whole recording. The audio is only analysed when something
+ * needs aligning.
+ */
+export async function resolveWordTimings(
+  response: { text: string; words?: TimedWord[]; segments?: TranscriptSegment[] },
+  loadAnalysis: () => Promise<SpeechAnalysis>
+): Promise<TimedWord[]> {
+  const timedWords = usableWords(response.words)
+  if (timedWords.length > 0) return timedWords
+
+  let analysis: SpeechAnalysis | null = null
+  const analyse = async () => (analysis ??= await loadAnalysis())
+
+  if (response.segments && response.segments.length > 0) {
+    const words: TimedWord[] = []
+    for (const segment of response.segments) {
+      const own = usableWords(segment.words)
+      if (own.length > 0) {
+        words.push(...own)
+        continue
+      }
+      const { envelope, regions } = await analyse()
+      words.push(...alignWordsToEnvelope(splitWords(segment.text), envelope, {
+        range: { start: segment.start, end: segment.end },
+        regions
+      }))
+    }
+    return words
+  }
+
+  const { envelope, regions } = await analyse()
+  return alignWordsToEnvelope(splitWords(response.text), envelope, { regions })
+}
+
+/**
+ * Decodes the recording for transcription, reusing the audio the editor's
+ * analysis decoded when there is one. That analysis follows the user's
+ * detection settings; without one, the decoded audio is analysed here.
+ */
+export async function prepareAudio(audioFile: Blob, analysis?: SpeechAnalysis): Promise<PreparedAudio> {
+  const buffer = analysis?.buffer ?? await decodeAudioFile(audioFile, SPEECH_SAMPLE_RATE)
+  if (analysis) return { buffer, analysis }
+
+  const envelope = computeEnergyEnvelope(buffer)
+  return { buffer, analysis: { envelope, regions: detectSpeechRegions(envelope) } }
+}
+
+export function planTranscription(prepared: PreparedAudio, chunking?: Partial<ChunkingOptions>) {
+  return planChunks(prepared.buffer.duration, prepared.analysis.regions, chunking)
+}
+
+/**
+ * Transcribes one chunk of the recording into cues timed against the actual
+ * speech. Word and segment timestamps are taken from the provider; when
+ * it returns none the words are placed using the audio's energy envelope.
+ * Only words centred in the chunk's own range are kept, so a word heard in
+ * the overlap with a neighbour isn't transcribed twice. Detected speech
+ * regions decide where cues break and how far they extend, and the cues are
+ * broken into lines when `lineBreaks` is given.
+ */
+export async function transcribeChunk(
+  { buffer, analysis }: PreparedAudio,
+  chunk: AudioChunk,
+  isLast: boolean,
+  { provider, language, grouping = {}, lineBreaks, signal }: TranscribeOptions = {}
+): Promise<ChunkTranscription> {
+  const response = await getTranscriptionProvider(provider).transcribe(
+    encodeWavRange(buffer, chunk.audioStart, chunk.audioEnd),
+    { language, signal }
+  )
+
+  // Timings come back in chunk time; untimed text is aligned within the chunk rather than the whole recording
+  const shift = <T extends { start: number; end: number }>(item: T) => ({
+    ...item,
+    start: item.start + chunk.audioStart,
+    end: item.end + chunk.audioStart
+  })
+  const shifted: ProviderTranscript = {
+    text: response.text,
+    words: response.words?.map(shift),
+    segments: response.segments.length > 0
+      ? response.segments.map(segment => ({ ...shift(segment), words: segment.words?.map(shift) }))
+      : [{ text: response.text, start: chunk.audioStart, end: chunk.audioEnd }]
+  }
+
+  const words = await resolveWordTimings(shifted, async () => analysis)
+  const cues = groupWordsIntoCues(wordsInChunk(words, chunk, isLast), grouping, analysis.regions)
+  return {
+    subtitles: lineBreaks ? breakCueLines(cues, lineBreaks) : cues,
+    language: normaliseLanguage(response.language)
+  }
+}
+
+/**
+ * Transcribes part of the recording, for redoing a stretch that came back
+ * wrong. Only words centred inside the range are kept; a long range is split
+ * into chunks like a whole recording is.
+ */
+export async function transcribeRange(
+  audioFile: Blob,
+  analysis: SpeechAnalysis | undefined,
+  range: { start: number; end: number },
+  options: TranscribeOptions = {}
+): Promise<ChunkTranscription> {
+  const prepared = await prepareAudio(audioFile, analysis)
+  const chunks = planRangeChunks(prepared.buffer.duration, prepared.analysis.regions, range)
+  const results = await mapWithConcurrency(chunks, DEFAULT_CONCURRENCY, chunk =>
+    transcribeChunk(prepared, chunk, chunk.index === chunks.length - 1, options)
+  )
+
+  return {
+    subtitles: results.flatMap(result => result.subtitles),
+    language: results.find(result => result.language)?.language ?? null
+  }
+}
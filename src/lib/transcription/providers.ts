@@ -0,0 +1,38 @@
+import type { TranscriptionProvider } from './types'
+import { blinkProvider } from './blink-provider'
+import { localProvider } from './local-provider'
+
+export const DEFAULT_PROVIDER_ID = blinkProvider.id
+
+const providers = new Map<string, TranscriptionProvider>()
+
+export function registerTranscriptionProvider(provider: TranscriptionProvider) {
+  if (providers.has(provider.id)) {
+    throw new Error(`Transcription provider "${provider.id}" is already registered`)
+  }
+  providers.set(provider.id, provider)
+}
+
+export function listTranscriptionProviders() {
+  return Array.from(providers.values())
+}
+
+// Unknown ids, such as one saved before its provider was removed, get the default
+export function getTranscriptionProvider(id: string | undefined) {
+  return (id && providers.get(id)) || providers.get(DEFAULT_PROVIDER_ID)!
+}
+
+const STORAGE_KEY = 'audio-subtitle-editor:transcription-provider'
+
+// The chosen provider is stored per browser
+export function loadTranscriptionProviderId() {
+  const stored = localStorage.getItem(STORAGE_KEY)
+  return stored && providers.has(stored) ? stored : DEFAULT_PROVIDER_ID
+}
+
+export function saveTranscriptionProviderId(id: string) {
+  localStorage.setItem(STORAGE_KEY, id)
+}
+
+registerTranscriptionProvider(blinkProvider)
+registerTranscriptionProvider(localProvider)
@@ -0,0 +1,39 @@
+export interface TimedWord {
+  word: string
+  start: number
+  end: number
+}
+
+export interface TranscriptSegment {
+  start: number
+  end: number
+  text: string
+  words?: TimedWord[]
+  // 0–1, when the provider gives one
+  confidence?: number
+}
+
+export interface ProviderTranscribeOptions {
+  // ISO 639-1 code of the spoken language; the provider detects it when omitted
+  language?: string
+  signal?: AbortSignal
+}
+
+// Timings are in seconds from the start of the audio the provider was given
+export interface ProviderTranscript {
+  text: string
+  segments: TranscriptSegment[]
+  words?: TimedWord[]
+  // As the provider reports it: a code, possibly with a region, or an English name
+  language?: string
+}
+
+export interface TranscriptionProvider {
+  id: string
+  name: string
+  description: string
+  // Whether it calls the Blink API and so needs a signed-in user
+  requiresAuth: boolean
+  // `audio` is a mono WAV clip; providers see one chunk of the recording at a time
+  transcribe: (audio: Blob, options: ProviderTranscribeOptions) => Promise<ProviderTranscript>
+}
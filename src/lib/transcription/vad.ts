@@ -0,0 +1,100 @@
+import type { EnergyEnvelope } from './audio'
+
+export interface SpeechRegion {
+  start: number
+  end: number
+}
+
+export interface SpeechDetectionOptions {
+  // Frames louder than this (dBFS) count as speech
+  threshold: number
+  // Pauses shorter than this are bridged instead of splitting a region
+  minSilence: number
+  // Added before and after every region so word onsets and tails aren't clipped
+  padding: number
+  // Bursts shorter than this (clicks, breaths) are ignored
+  minSpeech: number
+}
+
+export const DEFAULT_SPEECH_DETECTION: SpeechDetectionOptions = {
+  threshold: -40,
+  minSilence: 0.35,
+  padding: 0.1,
+  minSpeech: 0.15
+}
+
+function toDecibels(rms: number) {
+  return rms > 0 ? 20 * Math.log10(rms) : -Infinity
+}
+
+/**
+ * Finds the stretches of the recording that contain speech: frames above the
+ * threshold, with short pauses bridged, short bursts dropped and every
+ * region padded on both sides. Overlapping padded regions are merged.
+ */
+export function detectSpeechRegions(
+  envelope: EnergyEnvelope,
+  options: Partial<SpeechDetectionOptions> = {}
+): SpeechRegion[] {
+  const { threshold, minSilence, padding, minSpeech } = { ...DEFAULT_SPEECH_DETECTION, ...options }
+  const { values, frameDuration } = envelope
+  const totalDuration = values.length * frameDuration
+
+  const raw: SpeechRegion[] = []
+  let regionStart = -1
+  for (let frame = 0; frame <= values.length; frame++) {
+    const isSpeech = frame < values.length && toDecibels(values[frame]) > threshold
+    if (isSpeech && regionStart === -1) {
+      regionStart = frame
+    } else if (!isSpeech && regionStart !== -1) {
+      raw.push({ start: regionStart * frameDuration, end: frame * frameDuration })
+      regionStart = -1
+    }
+  }
+
+  const bridged: SpeechRegion[] = []
+  for (const region of raw) {
+    const previous = bridged[bridged.length - 1]
+    if (previous && region.start - previous.end < minSilence) {
+      previous.end = region.end
+    } else {
+      bridged.push({ ...region })
+    }
+  }
+
+  const padded: SpeechRegion[] = []
+  for (const region of bridged) {
+    if (region.end - region.start < minSpeech) continue
+
+    const start = Math.max(0, region.start - padding)
+    const end = Math.min(totalDuration, region.end + padding)
+    const previous = padded[padded.length - 1]
+    if (previous && start <= previous.end) {
+      previous.end = end
+    } else {
+      padded.push({ start, end })
+    }
+  }
+
+  return padded
+}
+
+export function findRegionAt(regions: SpeechRegion[], time: number) {
+  return regions.findIndex(region => time >= region.start && time <= region.end)
+}
+
+// Nearest region boundary within `tolerance` seconds of `time`, or `time` itself
+export function snapToRegions(time: number, regions: SpeechRegion[], tolerance = 0.5) {
+  let best = time
+  let bestDistance = tolerance
+  for (const region of regions) {
+    for (const boundary of [region.start, region.end]) {
+      const distance = Math.abs(boundary - time)
+      if (distance <= bestDistance) {
+        best = boundary
+        bestDistance = distance
+      }
+    }
+  }
+  return best
+}